@@ -1,26 +1,74 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import JSZip from 'jszip';
 import ActionButton from './components/ActionButton';
 import PreviewModal from './components/PreviewModal';
-import { getModificationJsonStream } from './services/geminiService';
-import { applyChanges } from './utils/codeModifier';
-import { ModificationPlan, SavedVersion, UploadedFile, ModelOption } from './types';
-import { WandIcon, UndoIcon, DownloadIcon, EyeIcon, CheckIcon, HistoryIcon, LightbulbIcon, PencilIcon, Trash2Icon, CodeIcon, FileZipIcon, GithubIcon } from './components/Icons';
+import { applyPlanWithRepairs, getContextFilesToLoad, getModificationJsonStream, repairModificationJsonStream, suggestFileSelection, draftCommitMessage, estimatePromptContext } from './services/aiService';
+import { parseModificationPlan } from './utils/planSchema';
+import { appendOperations, countOperations, createPlanStreamParser } from './utils/planStream';
+import { applyChanges, getChangedFiles } from './utils/codeModifier';
+import { mergeThreeWay } from './utils/merge';
+import { getSubjectLine, MAX_SUBJECT_LENGTH } from './utils/commitMessage';
+import { encodeFile, isEditableText } from './utils/blob';
+import { isGitAttributesFile, parseGitAttributes } from './utils/gitattributes';
+import { isProjectInstructionsFile } from './utils/projectInstructions';
+import { loadPromptTemplates, savePromptTemplates } from './utils/promptTemplates';
+import { ApplyTally, ConversationTurn, FailedOperation, EditFormat, FileSelection, ModificationPlan, PlanRefinement, PromptTemplate, SavedVersion, UploadedFile, LlmSettings, CommitOptions, PullRequestResult, MergeConflict, FetchProgress, RateLimitInfo, GitConnection, CommitSummary, CommitComparison, PullRequestSummary, IssueSummary, IssueThread, CommitDetails } from './types';
+import { WandIcon, UndoIcon, DownloadIcon, EyeIcon, CheckIcon, HistoryIcon, LightbulbIcon, PencilIcon, Trash2Icon, CodeIcon, FileZipIcon, GithubIcon, SlidersIcon } from './components/Icons';
 import { saveCodeVersion, getSavedVersions, clearAllVersions } from './utils/storage';
 import IconButton from './components/IconButton';
 import StreamingJsonModal from './components/StreamingJsonModal';
 import AiReplyModal from './components/AiReplyModal';
 import ProjectView from './components/ProjectView';
+import PromptTemplatePicker from './components/PromptTemplatePicker';
 import ChangesView from './components/ChangesView';
-import { fetchRepoContents, commitChangesToRepo } from './services/githubService';
+import { getGitProvider } from './services/gitProvider';
+import { onRateLimitChange } from './services/apiClient';
 import GithubConnect from './components/GithubConnect';
+import MergeConflictModal from './components/MergeConflictModal';
+import CommitHistoryPanel from './components/CommitHistoryPanel';
+import PullRequestPanel from './components/PullRequestPanel';
+import IssuePicker from './components/IssuePicker';
+import CommitDialog from './components/CommitDialog';
+import AiSettingsModal from './components/AiSettingsModal';
+import ContextBudgetIndicator from './components/ContextBudgetIndicator';
+import PlanThread from './components/PlanThread';
+import ApplyTallySummary from './components/ApplyTallySummary';
+import FileSelectionModal from './components/FileSelectionModal';
+import { loadLlmSettings, saveLlmSettings, loadSelectedModel, saveSelectedModel } from './utils/llmSettings';
 
 const MAX_HISTORY_LENGTH = 10;
+// How often an invalid modification plan is sent back to the model for correction
+const MAX_PLAN_REPAIR_ATTEMPTS = 2;
+
+const makeBranchName = () => {
+  const stamp = new Date().toISOString().slice(0, 16).replace(/[-:]/g, '').replace('T', '-');
+  return `ai-changes-${stamp}`;
+};
+
+const describeChanges = (originalFiles: UploadedFile[], modifiedFiles: UploadedFile[]) => {
+  const { changed, removed } = getChangedFiles(originalFiles, modifiedFiles);
+  const parts = [`${changed.length} ${changed.length === 1 ? 'file' : 'files'} changed`];
+  if (removed.length > 0) parts.push(`${removed.length} deleted`);
+  return parts.join(', ');
+};
+
+const formatIssueInstruction = (issue: IssueThread) => {
+  const parts = [`Resolve issue #${issue.number}: ${issue.title}`];
+  if (issue.body.trim()) parts.push(issue.body.trim());
+  if (issue.comments.length > 0) {
+    parts.push(`Discussion:\n${issue.comments.map(c => `- ${c.author}: ${c.body.trim()}`).join('\n')}`);
+  }
+  return parts.join('\n\n');
+};
 
 interface ModifiedResult {
   modifiedFiles: UploadedFile[];
   plan: ModificationPlan;
   notes?: string;
+  issueNumber?: number; // The issue the instructions were taken from
+  thread?: ConversationTurn[]; // Instructions that shaped the plan, oldest first
+  tally?: ApplyTally;
+  abandoned?: FailedOperation[]; // Operations that couldn't be applied, even after repairs
 }
 
 const App: React.FC = () => {
@@ -28,33 +76,81 @@ const App: React.FC = () => {
   const [selectedFileNames, setSelectedFileNames] = useState<string[]>([]);
   const [activeFileName, setActiveFileName] = useState<string | null>(null);
   const [modificationRequest, setModificationRequest] = useState<string>('');
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>(loadPromptTemplates);
+  // Code selected in the open file, for the {{selection}} of prompt templates
+  const [editorSelection, setEditorSelection] = useState('');
   const [modifiedResult, setModifiedResult] = useState<ModifiedResult | null>(null);
   const [history, setHistory] = useState<UploadedFile[][]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [successLink, setSuccessLink] = useState<{ href: string, label: string } | null>(null);
   const [isPreviewing, setIsPreviewing] = useState<boolean>(false);
   const [savedVersions, setSavedVersions] = useState<SavedVersion[]>([]);
   const [isStreamingJson, setIsStreamingJson] = useState<boolean>(false);
   const [streamingJsonContent, setStreamingJsonContent] = useState<string>('');
+  const [generationStatus, setGenerationStatus] = useState<string | null>(null); // Replaces the default title while the plan is repaired
+  const [streamingPreview, setStreamingPreview] = useState<ModifiedResult | null>(null);
+  const [isAutoSelect, setIsAutoSelect] = useState(false);
+  const [editFormat, setEditFormat] = useState<EditFormat | 'auto'>('auto');
+  const [fileSuggestion, setFileSuggestion] = useState<FileSelection | null>(null);
+  const generationRef = useRef<{ controller: AbortController, keepReceived: boolean } | null>(null);
   const [lastAiResponse, setLastAiResponse] = useState<string | null>(null);
   const [isAiReplyModalOpen, setIsAiReplyModalOpen] = useState<boolean>(false);
-  const [selectedModel, setSelectedModel] = useState<ModelOption>('flash');
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [isAiSettingsOpen, setIsAiSettingsOpen] = useState(false);
+  const [selectedModelId, setSelectedModelId] = useState(() => loadSelectedModel() ?? '');
+  // A model removed in the settings falls back to the first one listed
+  const selectedModel = llmSettings.models.find(m => m.id === selectedModelId) ?? llmSettings.models[0];
+  const pendingRefinement = useMemo<PlanRefinement | undefined>(
+    () => modifiedResult ? { thread: modifiedResult.thread ?? [], plan: modifiedResult.plan, modifiedFiles: modifiedResult.modifiedFiles } : undefined,
+    [modifiedResult]
+  );
+  const contextBudget = useMemo(
+    () => files.length > 0 ? estimatePromptContext(files, selectedFileNames, modificationRequest, selectedModel, editFormat, pendingRefinement) : null,
+    [files, selectedFileNames, modificationRequest, selectedModel, editFormat, pendingRefinement]
+  );
 
-  // GitHub State
-  const [githubToken, setGithubToken] = useState<string>('');
+  // Git hosting state
+  const [gitConnection, setGitConnection] = useState<GitConnection | null>(null);
   const [githubUsername, setGithubUsername] = useState<string>('');
   const [githubRepo, setGithubRepo] = useState<string>('');
+  const [githubBranch, setGithubBranch] = useState<string>('');
+  const [githubDefaultBranch, setGithubDefaultBranch] = useState<string>('');
+  const [fetchedCommitSha, setFetchedCommitSha] = useState<string>('');
+  const [pendingMerge, setPendingMerge] = useState<{ headSha: string, remoteChangedPaths: string[], conflicts: MergeConflict[], commit: CommitDetails } | null>(null);
+  const [commitDialog, setCommitDialog] = useState<{ draft: string, isDrafting: boolean, draftError: string | null, commitError: string | null } | null>(null);
+  const [commitOptions, setCommitOptions] = useState<CommitOptions>({ createBranch: false, newBranchName: makeBranchName(), openPullRequest: false });
   const [isGithubLoading, setIsGithubLoading] = useState<boolean>(false);
   const [githubError, setGithubError] = useState<string | null>(null);
   const [githubSuccess, setGithubSuccess] = useState<string | null>(null);
   const [isRepoFetched, setIsRepoFetched] = useState<boolean>(false);
+  const [githubProgress, setGithubProgress] = useState<FetchProgress | null>(null);
+  const [githubRateLimit, setGithubRateLimit] = useState<RateLimitInfo | null>(null);
+  const [commitHistory, setCommitHistory] = useState<CommitSummary[]>([]);
+  const [historyPage, setHistoryPage] = useState<number>(0);
+  const [historyHasMore, setHistoryHasMore] = useState<boolean>(false);
+  const [isHistoryLoading, setIsHistoryLoading] = useState<boolean>(false);
+  // A past commit loaded read-only, with the branch files to restore afterwards
+  const [checkedOut, setCheckedOut] = useState<{ commit: CommitSummary, stashedFiles: UploadedFile[] } | null>(null);
+  const [comparison, setComparison] = useState<CommitComparison | null>(null);
+  const [pullRequests, setPullRequests] = useState<PullRequestSummary[]>([]);
+  const [isPullRequestsLoading, setIsPullRequestsLoading] = useState<boolean>(false);
+  // The pull request whose head branch is loaded, and the commit its diff is taken against
+  const [activePullRequest, setActivePullRequest] = useState<{ pullRequest: PullRequestSummary, mergeBaseSha: string } | null>(null);
+  const [issues, setIssues] = useState<IssueSummary[]>([]);
+  const [isIssuesLoading, setIsIssuesLoading] = useState<boolean>(false);
+  const [linkedIssue, setLinkedIssue] = useState<IssueSummary | null>(null);
+  // Where pull requests from the loaded branch are opened against
+  const pullRequestBase = activePullRequest?.pullRequest.baseBranch ?? githubDefaultBranch;
 
 
   useEffect(() => {
     setSavedVersions(getSavedVersions());
   }, []);
 
+  useEffect(() => onRateLimitChange(setGithubRateLimit), []);
+
   const refreshVersions = useCallback(() => {
     setSavedVersions(getSavedVersions());
   }, []);
@@ -64,10 +160,37 @@ const App: React.FC = () => {
     setHistory([]);
     setError(null);
     setSuccessMessage(null);
+    setSuccessLink(null);
     setLastAiResponse(null);
   }
 
-  const handleFetchFromGithub = async (token: string, username: string, repo: string) => {
+  const loadComparison = useCallback(async (connection: GitConnection, owner: string, repo: string, baseSha: string, headSha: string, label?: string) => {
+    const provider = getGitProvider(connection.provider);
+    setIsHistoryLoading(true);
+    setError(null);
+    try {
+        const [baseFiles, headFiles] = await Promise.all([
+            provider.fetchCommitFiles(connection, owner, repo, baseSha),
+            provider.fetchCommitFiles(connection, owner, repo, headSha),
+        ]);
+        // Blob SHAs tell which files differ without downloading anything
+        const baseMap = new Map(baseFiles.map(f => [f.name, f]));
+        const headMap = new Map(headFiles.map(f => [f.name, f]));
+        const changedBase = baseFiles.filter(f => headMap.get(f.name)?.sha !== f.sha);
+        const changedHead = headFiles.filter(f => baseMap.get(f.name)?.sha !== f.sha);
+        const originalFiles = await provider.fetchFileContents(connection, owner, repo, changedBase, setGithubProgress);
+        const modifiedFiles = await provider.fetchFileContents(connection, owner, repo, changedHead, setGithubProgress);
+        setComparison({ baseSha, headSha, label, originalFiles, modifiedFiles });
+    } catch (e) {
+        console.error("Compare error:", e);
+        setError(`Failed to compare commits: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsHistoryLoading(false);
+        setGithubProgress(null);
+    }
+  }, []);
+
+  const handleFetchFromGithub = async (connection: GitConnection, username: string, repo: string, branch: string, pullRequest?: PullRequestSummary) => {
     setIsGithubLoading(true);
     setGithubError(null);
     setGithubSuccess(null);
@@ -75,33 +198,255 @@ const App: React.FC = () => {
     setFiles([]);
     setActiveFileName(null);
     setSelectedFileNames([]);
+    setCheckedOut(null);
+    setComparison(null);
+    setActivePullRequest(null);
 
     try {
-        const fetchedFiles = await fetchRepoContents(token, username, repo);
+        const provider = getGitProvider(connection.provider);
+        const snapshot = await provider.fetchRepoContents(connection, username, repo, branch, setGithubProgress);
+        // .gitattributes decide how line endings are written back and the project instructions go into every prompt,
+        // so they are loaded up front rather than on demand
+        const upfrontFiles = await provider.fetchFileContents(connection, username, repo, snapshot.files.filter(f => (isGitAttributesFile(f.name) || isProjectInstructionsFile(f.name)) && f.isLoaded === false));
+        const loadedUpfront = new Map(upfrontFiles.map(f => [f.name, f]));
+        const fetchedFiles = snapshot.files.map(f => loadedUpfront.get(f.name) ?? f);
         setFiles(fetchedFiles);
-        setGithubToken(token);
+        setGitConnection(connection);
         setGithubUsername(username);
         setGithubRepo(repo);
+        setGithubBranch(snapshot.branch);
+        setGithubDefaultBranch(snapshot.defaultBranch);
+        setFetchedCommitSha(snapshot.commitSha);
+        // Commits to a pull request branch update the pull request, so link to it afterwards
+        setCommitOptions({ createBranch: false, newBranchName: makeBranchName(), openPullRequest: !!pullRequest });
         setIsRepoFetched(true);
-        setGithubSuccess(`Successfully fetched ${repo}! You can now modify the files.`);
+        setGithubSuccess(`Successfully fetched ${repo}@${snapshot.branch}! You can now modify the files.`);
         if (fetchedFiles.length > 0) {
           // Sort files to ensure a consistent default file is picked
           const sortedFiles = [...fetchedFiles].sort((a, b) => a.name.localeCompare(b.name));
           setActiveFileName(sortedFiles[0].name);
         }
+        if (pullRequest) {
+            const mergeBaseSha = await provider.fetchPullRequestMergeBase(connection, username, repo, pullRequest.number);
+            setActivePullRequest({ pullRequest, mergeBaseSha });
+            await loadComparison(connection, username, repo, mergeBaseSha, snapshot.commitSha, `in pull request #${pullRequest.number}`);
+        }
     } catch (e) {
         console.error("GitHub fetch error:", e);
         const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
         setGithubError(`Fetch failed: ${errorMessage}`);
+        // The connection panel is collapsed once connected, so report pull request failures in the main view
+        if (pullRequest) setError(`Failed to open pull request #${pullRequest.number}: ${errorMessage}`);
     } finally {
         setIsGithubLoading(false);
+        setGithubProgress(null);
     }
   };
   
+  /**
+   * Repository files are fetched as metadata only. Downloads the content of the not-yet-loaded
+   * files in `list` (optionally only those named in `onlyNames`) and records them in the workspace.
+   * @returns `list` with those files loaded.
+   */
+  const loadFileContents = useCallback(async (list: UploadedFile[], onlyNames?: string[]): Promise<UploadedFile[]> => {
+    const stubs = list.filter(f => f.isLoaded === false && (!onlyNames || onlyNames.includes(f.name)));
+    if (!isRepoFetched || !gitConnection || stubs.length === 0) return list;
+
+    let loaded: UploadedFile[];
+    try {
+        loaded = await getGitProvider(gitConnection.provider).fetchFileContents(gitConnection, githubUsername, githubRepo, stubs, setGithubProgress);
+    } finally {
+        setGithubProgress(null);
+    }
+    const loadedMap = new Map(loaded.map(f => [f.name, f]));
+    // Only replace stubs of the same blob, in case the workspace moved on while downloading
+    setFiles(current => current.map(f => f.isLoaded === false && loadedMap.get(f.name)?.sha === f.sha ? loadedMap.get(f.name)! : f));
+    return list.map(f => loadedMap.get(f.name) ?? f);
+  }, [isRepoFetched, gitConnection, githubUsername, githubRepo]);
+
+  // Stub blobs already requested for the open and selected files, so editing while they download doesn't request them
+  // again. A failed download is retried once the selection or the repository changes.
+  const requestedStubsRef = useRef(new Set<string>());
+  useEffect(() => {
+    requestedStubsRef.current.clear();
+  }, [activeFileName, selectedFileNames, loadFileContents]);
+
+  useEffect(() => {
+    const namesToLoad = activeFileName ? [...selectedFileNames, activeFileName] : selectedFileNames;
+    const stubKey = (file: UploadedFile) => `${file.name}@${file.sha}`;
+    const stubs = files.filter(f => f.isLoaded === false && namesToLoad.includes(f.name) && !requestedStubsRef.current.has(stubKey(f)));
+    if (stubs.length === 0) return;
+    stubs.forEach(f => requestedStubsRef.current.add(stubKey(f)));
+    loadFileContents(files, stubs.map(f => f.name)).catch(e => {
+        console.error("GitHub file load error:", e);
+        setError(`Failed to load file contents: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    });
+  }, [files, activeFileName, selectedFileNames, loadFileContents]);
+
+  // A selection belongs to the file it was made in
+  useEffect(() => {
+    setEditorSelection('');
+  }, [activeFileName]);
+
+  const loadCommitHistory = useCallback(async (page: number) => {
+    if (!gitConnection) return;
+    setIsHistoryLoading(true);
+    try {
+        const result = await getGitProvider(gitConnection.provider).fetchCommitHistory(gitConnection, githubUsername, githubRepo, githubBranch, page);
+        setCommitHistory(prev => page === 1 ? result.commits : [...prev, ...result.commits]);
+        setHistoryPage(page);
+        setHistoryHasMore(result.hasMore);
+    } catch (e) {
+        console.error("Commit history error:", e);
+        setError(`Failed to load commit history: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsHistoryLoading(false);
+    }
+  }, [gitConnection, githubUsername, githubRepo, githubBranch]);
+
+  // Reload from the top whenever the branch or its head changes, e.g. after committing
+  useEffect(() => {
+    if (!isRepoFetched) {
+        setCommitHistory([]);
+        setHistoryHasMore(false);
+        return;
+    }
+    loadCommitHistory(1);
+  }, [isRepoFetched, fetchedCommitSha, loadCommitHistory]);
+
+  const handleCheckoutCommit = async (commit: CommitSummary) => {
+    if (!gitConnection) return;
+    if (modifiedResult && !window.confirm('Checking out a past commit discards the pending modifications. Continue?')) return;
+    setIsHistoryLoading(true);
+    setError(null);
+    try {
+        const commitFiles = await getGitProvider(gitConnection.provider).fetchCommitFiles(gitConnection, githubUsername, githubRepo, commit.sha, setGithubProgress);
+        setCheckedOut(prev => ({ commit, stashedFiles: prev?.stashedFiles ?? files }));
+        setFiles(commitFiles);
+        resetState();
+        setSelectedFileNames([]);
+        if (!activeFileName || !commitFiles.some(f => f.name === activeFileName)) {
+            setActiveFileName(null);
+        }
+    } catch (e) {
+        console.error("Checkout error:", e);
+        setError(`Failed to check out ${commit.sha.slice(0, 7)}: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsHistoryLoading(false);
+        setGithubProgress(null);
+    }
+  };
+
+  const handleReturnToHead = () => {
+    if (!checkedOut) return;
+    setFiles(checkedOut.stashedFiles);
+    setCheckedOut(null);
+    setSelectedFileNames([]);
+    if (activeFileName && !checkedOut.stashedFiles.some(f => f.name === activeFileName)) {
+        setActiveFileName(null);
+    }
+  };
+
+  const handleCompareCommits = (base: CommitSummary, head: CommitSummary) => {
+    if (!gitConnection) return;
+    loadComparison(gitConnection, githubUsername, githubRepo, base.sha, head.sha);
+  };
+
+  const handleLoadPullRequests = async () => {
+    if (!gitConnection) return;
+    setIsPullRequestsLoading(true);
+    try {
+        setPullRequests(await getGitProvider(gitConnection.provider).fetchOpenPullRequests(gitConnection, githubUsername, githubRepo));
+    } catch (e) {
+        console.error("Pull request list error:", e);
+        setError(`Failed to list pull requests: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsPullRequestsLoading(false);
+    }
+  };
+
+  const handleOpenPullRequest = (pullRequest: PullRequestSummary) => {
+    if (!gitConnection) return;
+    if (modifiedResult && !window.confirm(`Opening pull request #${pullRequest.number} discards the pending modifications. Continue?`)) return;
+    handleFetchFromGithub(gitConnection, githubUsername, githubRepo, pullRequest.headBranch, pullRequest);
+  };
+
+  const handleShowPullRequestDiff = () => {
+    if (!gitConnection || !activePullRequest) return;
+    loadComparison(gitConnection, githubUsername, githubRepo, activePullRequest.mergeBaseSha, fetchedCommitSha, `in pull request #${activePullRequest.pullRequest.number}`);
+  };
+
+  const handleImportReviewComments = async () => {
+    if (!gitConnection || !activePullRequest) return;
+    const { number } = activePullRequest.pullRequest;
+    setIsPullRequestsLoading(true);
+    setError(null);
+    try {
+        const comments = await getGitProvider(gitConnection.provider).fetchReviewComments(gitConnection, githubUsername, githubRepo, number);
+        if (comments.length === 0) {
+            setError(`Pull request #${number} has no review comments to import.`);
+            return;
+        }
+        const lines = comments.map(c => {
+            const location = c.path ? `${c.path}${c.line ? `:${c.line}` : ''}` : 'General';
+            return `- ${location} (${c.author}): ${c.body.trim().replace(/\s*\n\s*/g, ' ')}`;
+        });
+        const instruction = `Address these review comments on pull request #${number}:\n${lines.join('\n')}`;
+        setModificationRequest(prev => prev.trim() ? `${prev.trim()}\n\n${instruction}` : instruction);
+        // Select the files the comments point at so they are sent to the model
+        const commentedPaths = new Set(comments.map(c => c.path));
+        setSelectedFileNames(prev => Array.from(new Set([...prev, ...files.filter(f => commentedPaths.has(f.name)).map(f => f.name)])));
+    } catch (e) {
+        console.error("Review comment import error:", e);
+        setError(`Failed to import review comments: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsPullRequestsLoading(false);
+    }
+  };
+
+  const handleLoadIssues = async () => {
+    if (!gitConnection) return;
+    setIsIssuesLoading(true);
+    try {
+        setIssues(await getGitProvider(gitConnection.provider).fetchOpenIssues(gitConnection, githubUsername, githubRepo));
+    } catch (e) {
+        console.error("Issue list error:", e);
+        setError(`Failed to list issues: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsIssuesLoading(false);
+    }
+  };
+
+  const handleSelectIssue = async (issue: IssueSummary) => {
+    if (!gitConnection) return;
+    setIsIssuesLoading(true);
+    setError(null);
+    try {
+        const thread = await getGitProvider(gitConnection.provider).fetchIssueThread(gitConnection, githubUsername, githubRepo, issue.number);
+        setModificationRequest(formatIssueInstruction(thread));
+        setLinkedIssue(issue);
+    } catch (e) {
+        console.error("Issue load error:", e);
+        setError(`Failed to load issue #${issue.number}: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+    } finally {
+        setIsIssuesLoading(false);
+    }
+  };
+
   const handleDisconnectFromGithub = () => {
-      setGithubToken('');
+      setGitConnection(null);
       setGithubUsername('');
       setGithubRepo('');
+      setGithubBranch('');
+      setGithubDefaultBranch('');
+      setFetchedCommitSha('');
+      setPendingMerge(null);
+      setCheckedOut(null);
+      setComparison(null);
+      setPullRequests([]);
+      setActivePullRequest(null);
+      setIssues([]);
+      setLinkedIssue(null);
       setIsRepoFetched(false);
       setGithubError(null);
       setGithubSuccess(null);
@@ -111,114 +456,299 @@ const App: React.FC = () => {
       setSelectedFileNames([]);
   };
 
-  const handleGenerateOrModify = useCallback(async () => {
+  // An automatic selection is passed in directly, as the selection state hasn't been updated yet
+  const handleGenerateOrModify = useCallback(async (selection?: FileSelection) => {
+    const fileNamesToModify = selection?.edit ?? selectedFileNames;
     if (!modificationRequest) {
       setError('Please provide instructions.');
       return;
     }
 
-    if (files.length > 0 && selectedFileNames.length === 0) {
+    if (files.length > 0 && fileNamesToModify.length === 0) {
       setError('Please select at least one file to modify.');
       return;
     }
 
+    // A pending plan is revised by the follow-up instead of being replaced from scratch
+    const refinement = pendingRefinement;
+    const earlierTurns = refinement?.thread ?? [];
+
+    // Restored when the generation is cancelled
+    const previousState = { history, modifiedResult, lastAiResponse };
+    const generation = { controller: new AbortController(), keepReceived: false };
+    generationRef.current = generation;
+    const { signal } = generation.controller;
+
     setIsLoading(true);
-    resetState();
-    
-    if (files.length > 0) {
-        setHistory(prev => [files, ...prev].slice(0, MAX_HISTORY_LENGTH));
+    setComparison(null);
+    if (refinement) {
+        setError(null);
+        setSuccessMessage(null);
+        setSuccessLink(null);
+    } else {
+        resetState();
+        if (files.length > 0) {
+            setHistory(prev => [files, ...prev].slice(0, MAX_HISTORY_LENGTH));
+        }
     }
 
     setIsStreamingJson(true);
     setStreamingJsonContent('');
     let fullJson = '';
+    let promptFiles = files;
+    let partialPlan: ModificationPlan = {};
 
     try {
-        const modelNameMap: Record<ModelOption, string> = {
-            flash: 'gemini-2.5-flash-preview-04-17',
-            pro: 'gemini-2.5-pro', // NOTE: Using flash for "pro" as a placeholder per guidelines
-        };
-        const actualModelName = modelNameMap[selectedModel];
-        const stream = getModificationJsonStream(files, selectedFileNames, modificationRequest, actualModelName);
-        for await (const chunk of stream) {
+        // Files to modify and those picked for reading must be loaded, and so are the other files that fit in the prompt;
+        // the rest are only listed by path
+        const contextFileNames = getContextFilesToLoad(files, fileNamesToModify, modificationRequest, selectedModel, editFormat, refinement);
+        promptFiles = await loadFileContents(files, [...fileNamesToModify, ...(selection?.read ?? []), ...contextFileNames]);
+        signal.throwIfAborted();
+
+        // Operations are previewed in the changes view as soon as each one is complete
+        let parser = createPlanStreamParser();
+        const readChunk = (chunk: string) => {
             fullJson += chunk;
             setStreamingJsonContent(prev => prev + chunk);
+            const operations = parser.push(chunk);
+            if (operations.length > 0) {
+                partialPlan = appendOperations(partialPlan, operations);
+                setStreamingPreview({ modifiedFiles: applyChanges(promptFiles, partialPlan).finalFiles, plan: partialPlan });
+            }
+        };
+
+        // Providers don't all stop a stream promptly when aborted, so the signal is checked between chunks too
+        for await (const chunk of getModificationJsonStream(promptFiles, fileNamesToModify, modificationRequest, llmSettings.connection, selectedModel, editFormat, refinement, signal)) {
+            if (signal.aborted) break;
+            readChunk(chunk);
         }
+        signal.throwIfAborted();
         
-        setLastAiResponse(fullJson);
-        let plan: ModificationPlan = {};
-        if (fullJson) {
-            try {
-                 let jsonStr = fullJson.trim();
-                 const fenceRegex = /^```(\w*)?\s*\n?(.*?)\n?\s*```$/s;
-                 const match = jsonStr.match(fenceRegex);
-                 if (match && match[2]) {
-                   jsonStr = match[2].trim();
-                 }
-                 plan = JSON.parse(jsonStr);
-            } catch (e) {
-                 console.error("Failed to parse streamed JSON:", e);
-                 console.error("Raw response:", fullJson);
-                 throw new Error("The AI returned an invalid modification plan. Please check the JSON response.");
+        // Plans that don't match the schema go back to the model with the problems found
+        let { plan, errors } = parseModificationPlan(fullJson);
+        for (let attempt = 1; !plan && attempt <= MAX_PLAN_REPAIR_ATTEMPTS; attempt++) {
+            console.warn(`Invalid modification plan, repair attempt ${attempt}:`, errors);
+            setGenerationStatus(`Repairing Modification Plan (attempt ${attempt} of ${MAX_PLAN_REPAIR_ATTEMPTS})...`);
+            setStreamingJsonContent('');
+            setStreamingPreview(null);
+            const invalidJson = fullJson;
+            fullJson = '';
+            parser = createPlanStreamParser();
+            partialPlan = {};
+            for await (const chunk of repairModificationJsonStream(invalidJson, errors, fileNamesToModify, modificationRequest, llmSettings.connection, selectedModel, signal)) {
+                if (signal.aborted) break;
+                readChunk(chunk);
             }
+            signal.throwIfAborted();
+            ({ plan, errors } = parseModificationPlan(fullJson));
+        }
+
+        setLastAiResponse(fullJson);
+        if (!plan) {
+            console.error("Raw response:", fullJson);
+            throw new Error(`The AI returned an invalid modification plan, even after ${MAX_PLAN_REPAIR_ATTEMPTS} repair attempts: ${errors.slice(0, 3).join('; ')}${errors.length > 3 ? ` (and ${errors.length - 3} more)` : ''}`);
         }
-      
-      const hasChanges = plan.delete?.length || plan.modify?.length || plan.newFiles?.length || plan.deleteFiles?.length;
+
+      const hasChanges = countOperations(plan) > 0;
       if (!plan || !hasChanges) {
-        setError("AI did not suggest any changes. Try rephrasing your request or using the 'Pro' model for more complex tasks.");
-        if(files.length > 0) setHistory(prev => prev.slice(1));
-        setLastAiResponse(null);
+        setError("AI did not suggest any changes. Try rephrasing your request or using a more capable model for complex tasks.");
+        if (refinement) {
+            setLastAiResponse(previousState.lastAiResponse);
+        } else {
+            if(files.length > 0) setHistory(prev => prev.slice(1));
+            setLastAiResponse(null);
+        }
       } else {
-        const { finalFiles } = applyChanges(files, plan);
+        const applied = await applyPlanWithRepairs(
+            promptFiles, plan, modificationRequest, llmSettings.connection, selectedModel, llmSettings.maxRepairAttempts,
+            (attempt, failedCount) => setGenerationStatus(`Re-anchoring ${failedCount} failed ${failedCount === 1 ? 'edit' : 'edits'} (attempt ${attempt} of ${llmSettings.maxRepairAttempts})...`),
+            signal
+        );
         setModifiedResult({
-            modifiedFiles: finalFiles,
-            plan: plan,
-            notes: plan.notes 
+            modifiedFiles: applied.finalFiles,
+            plan: applied.plan,
+            notes: plan.notes,
+            tally: applied.tally,
+            abandoned: applied.abandoned,
+            issueNumber: refinement ? modifiedResult?.issueNumber : linkedIssue?.number,
+            thread: [...earlierTurns, { instruction: modificationRequest, notes: plan.notes }]
         });
+        // The box is ready for the next follow-up
+        if (refinement) setModificationRequest('');
       }
     } catch (e) {
-      console.error(e);
-      setError(e instanceof Error ? e.message : 'An unknown error occurred during modification.');
-      if(files.length > 0) setHistory(prev => prev.slice(1));
+      const receivedCount = countOperations(partialPlan);
+      if (signal.aborted && generation.keepReceived && receivedCount > 0) {
+        // Only operations whose JSON arrived in full were parsed, so they are as sound as those of a finished plan
+        setLastAiResponse(fullJson);
+        setModifiedResult({
+            modifiedFiles: applyChanges(promptFiles, partialPlan).finalFiles,
+            plan: partialPlan,
+            issueNumber: refinement ? modifiedResult?.issueNumber : linkedIssue?.number,
+            thread: [...earlierTurns, { instruction: modificationRequest }]
+        });
+        setSuccessMessage(`Generation stopped. Kept the ${receivedCount} ${receivedCount === 1 ? 'change' : 'changes'} received so far; the rest of the plan was discarded.`);
+      } else if (signal.aborted) {
+        setHistory(previousState.history);
+        setModifiedResult(previousState.modifiedResult);
+        setLastAiResponse(previousState.lastAiResponse);
+      } else {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'An unknown error occurred during modification.');
+        if (refinement) {
+            setLastAiResponse(previousState.lastAiResponse);
+        } else if(files.length > 0) {
+            setHistory(prev => prev.slice(1));
+        }
+      }
     } finally {
+      generationRef.current = null;
       setIsLoading(false);
       setIsStreamingJson(false);
+      setStreamingPreview(null);
+      setGenerationStatus(null);
     }
-  }, [files, selectedFileNames, modificationRequest, selectedModel]);
+  }, [files, selectedFileNames, modificationRequest, llmSettings, selectedModel, editFormat, loadFileContents, linkedIssue, history, modifiedResult, lastAiResponse, pendingRefinement]);
+
+  const handleDiscoverFiles = useCallback(async () => {
+    if (!modificationRequest) {
+      setError('Please provide instructions.');
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+    try {
+        setFileSuggestion(await suggestFileSelection(files, modificationRequest, llmSettings.connection, selectedModel));
+    } catch (e) {
+        console.error(e);
+        setError(e instanceof Error ? e.message : 'An unknown error occurred while choosing the files.');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [files, modificationRequest, llmSettings, selectedModel]);
+
+  const handleConfirmFileSelection = (selection: FileSelection) => {
+    setFileSuggestion(null);
+    setSelectedFileNames(selection.edit);
+    handleGenerateOrModify(selection);
+  };
+
+  // A pending plan is always refined with the files it was made for
+  const handleApplyClick = () => {
+    if (isAutoSelect && files.length > 0 && !modifiedResult) {
+      handleDiscoverFiles();
+    } else {
+      handleGenerateOrModify();
+    }
+  };
+
+  const handleCancelGeneration = useCallback((keepReceived: boolean) => {
+    if (!generationRef.current) return;
+    generationRef.current.keepReceived = keepReceived;
+    generationRef.current.controller.abort();
+  }, []);
   
+  const commitAndFinish = useCallback(async (
+    result: ModifiedResult,
+    commitDetails: CommitDetails,
+    baseFiles: UploadedFile[],
+    finalFiles: UploadedFile[],
+    parentSha: string,
+    targetBranch: string,
+    pullRequestBase: string,
+    pathsToSync: string[]
+  ) => {
+    const provider = getGitProvider(gitConnection!.provider);
+    const commit = await provider.commitChanges(
+        gitConnection!,
+        githubUsername,
+        githubRepo,
+        targetBranch,
+        parentSha,
+        baseFiles,
+        finalFiles,
+        commitDetails
+    );
+    setFetchedCommitSha(commit.sha);
+    if (activePullRequest) {
+        loadComparison(gitConnection!, githubUsername, githubRepo, activePullRequest.mergeBaseSha, commit.sha, `in pull request #${activePullRequest.pullRequest.number}`);
+    }
+
+    let pullRequest: PullRequestResult | null = null;
+    if (commitOptions.openPullRequest && targetBranch !== pullRequestBase) {
+        const title = getSubjectLine(commitDetails.message).slice(0, MAX_SUBJECT_LENGTH);
+        // Closes the issue once the pull request is merged
+        const closingReference = result.issueNumber ? `\n\nFixes #${result.issueNumber}` : '';
+        pullRequest = await provider.createPullRequest(
+            gitConnection!,
+            githubUsername,
+            githubRepo,
+            targetBranch,
+            pullRequestBase,
+            title,
+            result.notes ? result.notes + closingReference : commitDetails.message
+        );
+    }
+
+    // Pick up the remote changes the commit was applied on top of, so the workspace matches the new head
+    let committedFiles = finalFiles;
+    if (pathsToSync.length > 0) {
+        const remoteFiles = await Promise.all(pathsToSync.map(path => provider.fetchFileAtRef(gitConnection!, githubUsername, githubRepo, path, commit.sha)));
+        const syncedNames = new Set(pathsToSync);
+        committedFiles = [
+            ...finalFiles.filter(f => !syncedNames.has(f.name)),
+            ...remoteFiles.filter((f): f is UploadedFile => f !== null),
+        ];
+    }
+
+    setFiles(committedFiles);
+    if(activeFileName && !committedFiles.some(f => f.name === activeFileName)) {
+      setActiveFileName(null);
+    }
+    setSelectedFileNames([]);
+    resetState();
+    setModificationRequest('');
+    setLinkedIssue(null);
+    setCommitOptions(prev => ({ ...prev, newBranchName: makeBranchName() }));
+    if (pullRequest) {
+        setSuccessMessage(`Successfully committed to ${targetBranch} and ${pullRequest.isNew ? 'opened' : 'updated'} pull request #${pullRequest.number}!`);
+        setSuccessLink({ href: pullRequest.url, label: `View pull request #${pullRequest.number}` });
+    } else {
+        setSuccessMessage(`Successfully committed to ${targetBranch}!`);
+        setSuccessLink({ href: commit.url, label: 'View commit' });
+    }
+  }, [activeFileName, gitConnection, githubUsername, githubRepo, commitOptions, activePullRequest, loadComparison]);
+
+  const handleDraftCommitMessage = useCallback(async () => {
+    if (!modifiedResult) return;
+    setCommitDialog(prev => ({ draft: prev?.draft ?? '', isDrafting: true, draftError: null, commitError: prev?.commitError ?? null }));
+    // Closes the issue once the commit lands on the default branch
+    const closingReference = modifiedResult.issueNumber ? `\n\nFixes #${modifiedResult.issueNumber}` : '';
+    try {
+        const draft = await draftCommitMessage(files, modifiedResult.modifiedFiles, modifiedResult.notes, llmSettings.connection, selectedModel);
+        setCommitDialog(prev => prev && { ...prev, draft: draft + closingReference, isDrafting: false });
+    } catch (e) {
+        console.error("Commit message draft error:", e);
+        const fallback = (modifiedResult.notes || 'AI-generated code modifications') + closingReference;
+        setCommitDialog(prev => prev && {
+            ...prev,
+            draft: prev.draft || fallback,
+            isDrafting: false,
+            draftError: `Could not draft a message: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`,
+        });
+    }
+  }, [modifiedResult, files, llmSettings, selectedModel]);
+
   const handleApproveClick = useCallback(async () => {
     if (!modifiedResult) return;
     
     if (isRepoFetched) {
-        setIsLoading(true);
-        setError(null);
-        setSuccessMessage(null);
-        try {
-            const commitMessage = modifiedResult.notes || 'AI-generated code modifications';
-            const commitUrl = await commitChangesToRepo(
-                githubToken,
-                githubUsername,
-                githubRepo,
-                modifiedResult.modifiedFiles,
-                commitMessage
-            );
-            setFiles(modifiedResult.modifiedFiles);
-            if(activeFileName && !modifiedResult.modifiedFiles.some(f => f.name === activeFileName)) {
-              setActiveFileName(null);
-            }
-            setSelectedFileNames([]);
-            resetState();
-            setModificationRequest('');
-            setSuccessMessage(`Successfully committed to GitHub! View commit: ${commitUrl}`);
-
-        } catch (e) {
-            console.error("GitHub commit error:", e);
-            const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
-            setError(`GitHub Commit Failed: ${errorMessage}`);
-        } finally {
-            setIsLoading(false);
+        if (commitOptions.createBranch && !commitOptions.newBranchName) {
+            setError('Please enter a name for the new branch.');
+            return;
         }
-
+        handleDraftCommitMessage();
     } else {
         // Original local storage logic
         saveCodeVersion(files);
@@ -230,9 +760,111 @@ const App: React.FC = () => {
         setSelectedFileNames([]);
         resetState();
         setModificationRequest('');
+        setLinkedIssue(null);
         setSuccessMessage("Changes approved and saved as a new local version.");
     }
-  }, [modifiedResult, files, activeFileName, refreshVersions, isRepoFetched, githubToken, githubUsername, githubRepo]);
+  }, [modifiedResult, files, activeFileName, refreshVersions, isRepoFetched, commitOptions, handleDraftCommitMessage]);
+
+  const handleConfirmCommit = useCallback(async (commitDetails: CommitDetails) => {
+    if (!modifiedResult) return;
+
+    setIsLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+    setSuccessLink(null);
+    setCommitDialog(prev => prev && { ...prev, commitError: null });
+    try {
+        const provider = getGitProvider(gitConnection!.provider);
+        if (commitOptions.createBranch) {
+            // A new branch starts at the fetched commit, so there is nothing to reconcile
+            await provider.createBranch(gitConnection!, githubUsername, githubRepo, commitOptions.newBranchName, fetchedCommitSha);
+            const targetBranch = commitOptions.newBranchName;
+            // The branch now exists, so any retry must commit to it rather than create it again
+            setGithubBranch(targetBranch);
+            setCommitOptions(prev => ({ ...prev, createBranch: false }));
+            await commitAndFinish(modifiedResult, commitDetails, files, modifiedResult.modifiedFiles, fetchedCommitSha, targetBranch, githubBranch, []);
+            setCommitDialog(null);
+            return;
+        }
+
+        const drift = await provider.checkRemoteDrift(gitConnection!, githubUsername, githubRepo, githubBranch, fetchedCommitSha);
+        if (!drift) {
+            await commitAndFinish(modifiedResult, commitDetails, files, modifiedResult.modifiedFiles, fetchedCommitSha, githubBranch, pullRequestBase, []);
+            setCommitDialog(null);
+            return;
+        }
+
+        const { changed, removed } = getChangedFiles(files, modifiedResult.modifiedFiles);
+        const ourPaths = new Set([...changed, ...removed].map(f => f.name));
+        const conflictPaths = drift.changedPaths.filter(path => ourPaths.has(path));
+
+        if (conflictPaths.length === 0) {
+            // Nobody else touched our paths, so our changes can be applied straight onto the new head
+            await commitAndFinish(modifiedResult, commitDetails, files, modifiedResult.modifiedFiles, drift.headSha, githubBranch, pullRequestBase, drift.changedPaths);
+            setCommitDialog(null);
+            return;
+        }
+
+        const conflicts = await Promise.all(conflictPaths.map(async (path): Promise<MergeConflict> => {
+            const base = files.find(f => f.name === path) ?? null;
+            const ours = modifiedResult.modifiedFiles.find(f => f.name === path) ?? null;
+            const theirs = await provider.fetchFileAtRef(gitConnection!, githubUsername, githubRepo, path, drift.headSha);
+            let resolution = ours ? ours.content : null;
+            if (ours && theirs && isEditableText(ours) && isEditableText(theirs)) {
+                resolution = mergeThreeWay(base?.content ?? '', ours.content, theirs.content).merged;
+            }
+            return { path, base, ours, theirs, resolution };
+        }));
+        setCommitDialog(null);
+        setPendingMerge({ headSha: drift.headSha, remoteChangedPaths: drift.changedPaths, conflicts, commit: commitDetails });
+    } catch (e) {
+        console.error("GitHub commit error:", e);
+        const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+        // The dialog stays open so the edited message isn't lost
+        setCommitDialog(prev => prev && { ...prev, commitError: `Commit Failed: ${errorMessage}` });
+    } finally {
+        setIsLoading(false);
+    }
+  }, [modifiedResult, files, gitConnection, githubUsername, githubRepo, githubBranch, pullRequestBase, fetchedCommitSha, commitOptions, commitAndFinish]);
+
+  const handleMergeCommit = useCallback(async (resolved: MergeConflict[]) => {
+    if (!modifiedResult || !pendingMerge) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+        const resolvedNames = new Set(resolved.map(c => c.path));
+        // Resolved paths are compared against the remote head, everything else against the fetched files
+        const baseFiles = [
+            ...files.filter(f => !resolvedNames.has(f.name)),
+            ...resolved.map(c => c.theirs).filter((f): f is UploadedFile => f !== null),
+        ];
+        const finalFiles = [
+            ...modifiedResult.modifiedFiles.filter(f => !resolvedNames.has(f.name)),
+            ...resolved
+                .filter(c => c.resolution !== null)
+                .map(c => ({ ...(c.ours ?? c.theirs ?? c.base)!, name: c.path, content: c.resolution!, sha: undefined })),
+        ];
+        await commitAndFinish(
+            modifiedResult,
+            pendingMerge.commit,
+            baseFiles,
+            finalFiles,
+            pendingMerge.headSha,
+            githubBranch,
+            pullRequestBase,
+            pendingMerge.remoteChangedPaths.filter(path => !resolvedNames.has(path))
+        );
+        setPendingMerge(null);
+    } catch (e) {
+        console.error("GitHub merge commit error:", e);
+        const errorMessage = e instanceof Error ? e.message : 'An unknown error occurred.';
+        setError(`Commit Failed: ${errorMessage}`);
+        setPendingMerge(null);
+    } finally {
+        setIsLoading(false);
+    }
+  }, [modifiedResult, pendingMerge, files, githubBranch, pullRequestBase, commitAndFinish]);
 
 
   const handleUndoClick = useCallback(() => {
@@ -244,7 +876,7 @@ const App: React.FC = () => {
     }
   }, [history]);
 
-  const downloadFile = (content: string, filename: string, mimeType: string) => {
+  const downloadFile = (content: BlobPart, filename: string, mimeType: string) => {
     const blob = new Blob([content], { type: mimeType });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -258,13 +890,11 @@ const App: React.FC = () => {
 
   const downloadProjectAsZip = async (projectFiles: UploadedFile[], zipName: string) => {
     const zip = new JSZip();
+    const attributeRules = parseGitAttributes(projectFiles);
     projectFiles.forEach(file => {
-        if (file.type.startsWith('image/') && file.content.startsWith('data:')) {
-            const base64Data = file.content.split(',')[1];
-            zip.file(file.name, base64Data, { base64: true });
-        } else {
-            zip.file(file.name, file.content);
-        }
+        // A submodule is a link to another repository, with nothing to put in the archive
+        if (file.isSubmodule) return;
+        zip.file(file.name, encodeFile(file, 'workingTree', attributeRules));
     });
     
     const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -280,11 +910,18 @@ const App: React.FC = () => {
   
   const handleDownloadProjectClick = async () => {
     if (!modifiedResult) return;
-    const projectFiles = modifiedResult.modifiedFiles;
+    let projectFiles = modifiedResult.modifiedFiles;
+    try {
+        projectFiles = await loadFileContents(projectFiles);
+    } catch (e) {
+        console.error("GitHub file load error:", e);
+        setError(`Failed to load file contents for download: ${e instanceof Error ? e.message : 'An unknown error occurred.'}`);
+        return;
+    }
     
     if (projectFiles.length === 1) {
         const file = projectFiles[0];
-        downloadFile(file.content, file.name, file.type);
+        downloadFile(encodeFile(file, 'workingTree'), file.name, file.type);
     } else if (projectFiles.length > 1) {
         await downloadProjectAsZip(projectFiles, 'modified-project');
     }
@@ -309,6 +946,22 @@ const App: React.FC = () => {
       );
   };
   
+  const handleSelectModel = (modelId: string) => {
+      setSelectedModelId(modelId);
+      saveSelectedModel(modelId);
+  };
+
+  const handlePromptTemplatesChange = (templates: PromptTemplate[]) => {
+      savePromptTemplates(templates);
+      setPromptTemplates(templates);
+  };
+
+  const handleSaveAiSettings = (settings: LlmSettings) => {
+      saveLlmSettings(settings);
+      setLlmSettings(settings);
+      setIsAiSettingsOpen(false);
+  };
+
   const handleClearHistory = () => {
       if (window.confirm("Are you sure you want to delete all saved versions? This cannot be undone.")) {
           clearAllVersions();
@@ -317,11 +970,53 @@ const App: React.FC = () => {
   };
 
   const hasModifications = !!modifiedResult;
+  // Files stay locked while a plan streams in, as the plan applies to them as they were sent
+  const areFilesLocked = hasModifications || isStreamingJson;
   const activeFile = files.find(f => f.name === activeFileName) ?? null;
 
   return (
     <>
-      <StreamingJsonModal isOpen={isStreamingJson} content={streamingJsonContent} />
+      <StreamingJsonModal
+        isOpen={isStreamingJson}
+        content={streamingJsonContent}
+        operationCount={streamingPreview ? countOperations(streamingPreview.plan) : 0}
+        onCancel={handleCancelGeneration}
+        title={generationStatus ?? undefined}
+      />
+      {fileSuggestion && (
+        <FileSelectionModal
+          files={files}
+          suggestion={fileSuggestion}
+          onConfirm={handleConfirmFileSelection}
+          onCancel={() => setFileSuggestion(null)}
+        />
+      )}
+      {isAiSettingsOpen && (
+        <AiSettingsModal settings={llmSettings} onSave={handleSaveAiSettings} onClose={() => setIsAiSettingsOpen(false)} />
+      )}
+      {commitDialog && modifiedResult && (
+        <CommitDialog
+          targetBranch={commitOptions.createBranch ? commitOptions.newBranchName : githubBranch}
+          changeSummary={describeChanges(files, modifiedResult.modifiedFiles)}
+          draft={commitDialog.draft}
+          isDrafting={commitDialog.isDrafting}
+          draftError={commitDialog.draftError}
+          commitError={commitDialog.commitError}
+          isCommitting={isLoading}
+          onRedraft={handleDraftCommitMessage}
+          onCommit={handleConfirmCommit}
+          onCancel={() => setCommitDialog(null)}
+        />
+      )}
+      {pendingMerge && (
+        <MergeConflictModal
+          branchName={githubBranch}
+          conflicts={pendingMerge.conflicts}
+          isCommitting={isLoading}
+          onCommit={handleMergeCommit}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
       <AiReplyModal isOpen={isAiReplyModalOpen} onClose={() => setIsAiReplyModalOpen(false)} jsonContent={lastAiResponse ?? ''} />
       {isPreviewing && activeFile && activeFile.type === 'text/html' && (
         <PreviewModal code={activeFile.content} onClose={() => setIsPreviewing(false)} />
@@ -346,7 +1041,7 @@ const App: React.FC = () => {
               icon={isRepoFetched ? <GithubIcon/> : <CheckIcon />}
               className={isRepoFetched ? "bg-purple-600 hover:bg-purple-700 disabled:bg-bunker-700" : "bg-emerald-600 hover:bg-emerald-700 disabled:bg-bunker-700"}
             >
-              {isRepoFetched ? 'Commit to GitHub' : 'Approve'}
+              {isRepoFetched && gitConnection ? `Commit to ${getGitProvider(gitConnection.provider).label}` : 'Approve'}
             </ActionButton>
             <ActionButton
               onClick={() => setIsPreviewing(true)}
@@ -375,6 +1070,12 @@ const App: React.FC = () => {
             success={githubSuccess}
             isFetched={isRepoFetched}
             repoName={isRepoFetched ? `${githubUsername}/${githubRepo}`: ''}
+            branchName={githubBranch}
+            progress={githubProgress}
+            rateLimit={githubRateLimit}
+            defaultBranch={pullRequestBase}
+            commitOptions={commitOptions}
+            onCommitOptionsChange={setCommitOptions}
             onDisconnect={handleDisconnectFromGithub}
           />
         </div>
@@ -390,26 +1091,69 @@ const App: React.FC = () => {
             {successMessage && (
                <div className="flex-shrink-0 bg-green-900/50 border border-green-700 text-green-200 px-4 py-3 rounded-md" role="alert">
                  <p className="font-bold">{successMessage}</p>
+                 {successLink && (
+                   <a href={successLink.href} target="_blank" rel="noopener noreferrer" className="text-sm underline hover:text-green-100">
+                     {successLink.label}
+                   </a>
+                 )}
                </div>
             )}
 
-            {modifiedResult?.notes && (
-                <div className="flex-shrink-0 bg-sky-900/50 border border-sky-700 text-sky-200 px-4 py-3 rounded-md flex items-start gap-3" role="status">
-                    <LightbulbIcon className="flex-shrink-0 mt-1"/>
-                    <div>
-                        <div className="flex items-center gap-2 mb-1">
-                          <h3 className="font-bold">Notes from AI</h3>
-                           {lastAiResponse && (
-                             <IconButton ariaLabel="View AI JSON Response" onClick={() => setIsAiReplyModalOpen(true)}>
-                                <CodeIcon/>
-                             </IconButton>
-                           )}
+            {modifiedResult && (modifiedResult.notes || modifiedResult.tally || modifiedResult.thread) && (
+                <div className="flex-shrink-0 flex flex-col lg:flex-row gap-4">
+                    {modifiedResult.notes && (
+                        <div className="flex-grow bg-sky-900/50 border border-sky-700 text-sky-200 px-4 py-3 rounded-md flex items-start gap-3" role="status">
+                            <LightbulbIcon className="flex-shrink-0 mt-1"/>
+                            <div>
+                                <div className="flex items-center gap-2 mb-1">
+                                  <h3 className="font-bold">Notes from AI</h3>
+                                   {lastAiResponse && (
+                                     <IconButton ariaLabel="View AI JSON Response" onClick={() => setIsAiReplyModalOpen(true)}>
+                                        <CodeIcon/>
+                                     </IconButton>
+                                   )}
+                                </div>
+                                <p className="text-sm">{modifiedResult.notes}</p>
+                            </div>
                         </div>
-                        <p className="text-sm">{modifiedResult.notes}</p>
-                    </div>
+                    )}
+                    {modifiedResult.tally && (
+                        <ApplyTallySummary tally={modifiedResult.tally} abandoned={modifiedResult.abandoned ?? []} />
+                    )}
+                    {modifiedResult.thread && (
+                        <PlanThread thread={modifiedResult.thread} disabled={isLoading} onDiscard={resetState} />
+                    )}
                 </div>
             )}
             
+            {isRepoFetched && (
+                <PullRequestPanel
+                    pullRequests={pullRequests}
+                    isLoading={isPullRequestsLoading || isGithubLoading}
+                    activePullRequest={activePullRequest?.pullRequest ?? null}
+                    onLoad={handleLoadPullRequests}
+                    onOpen={handleOpenPullRequest}
+                    onShowDiff={handleShowPullRequestDiff}
+                    onImportComments={handleImportReviewComments}
+                />
+            )}
+
+            {isRepoFetched && (
+                <CommitHistoryPanel
+                    branchName={githubBranch}
+                    commits={commitHistory}
+                    hasMore={historyHasMore}
+                    isLoading={isHistoryLoading}
+                    headSha={fetchedCommitSha}
+                    checkedOutSha={checkedOut?.commit.sha ?? null}
+                    comparedShas={comparison ? [comparison.baseSha, comparison.headSha] : null}
+                    onLoadMore={() => loadCommitHistory(historyPage + 1)}
+                    onCheckout={handleCheckoutCommit}
+                    onReturnToHead={handleReturnToHead}
+                    onCompare={handleCompareCommits}
+                />
+            )}
+
             {!isRepoFetched && savedVersions.length > 0 && (
                 <div className="flex-shrink-0 bg-bunker-900 p-3 rounded-lg border border-bunker-800">
                     <div className="flex items-center justify-between mb-2">
@@ -442,31 +1186,50 @@ const App: React.FC = () => {
                   onSelectedFileNamesUpdate={setSelectedFileNames}
                   onActiveFileNameUpdate={setActiveFileName}
                   onFileContentChange={handleFileContentChange}
-                  isModified={hasModifications}
+                  isModified={areFilesLocked}
                   isGithubConnected={isRepoFetched}
+                  onEditorSelectionChange={setEditorSelection}
                 />
 
                 <ChangesView
                     originalFiles={files}
-                    modifiedResult={modifiedResult}
+                    modifiedResult={streamingPreview ?? modifiedResult}
+                    isGenerating={isStreamingJson}
+                    comparison={comparison}
+                    onCloseComparison={() => setComparison(null)}
                 />
               </div>
             </main>
         </div>
         
         <footer className="flex-shrink-0 flex items-center gap-4 p-4 border-t border-bunker-800 bg-bunker-950">
+             {isRepoFetched && (
+                <IssuePicker
+                    issues={issues}
+                    isLoading={isIssuesLoading}
+                    disabled={isLoading}
+                    onOpen={handleLoadIssues}
+                    onSelect={handleSelectIssue}
+                />
+             )}
              <div className="flex-grow relative">
+                {linkedIssue && (
+                    <span className="absolute -top-3 left-2 z-10 flex items-center gap-1 text-xs bg-purple-900 border border-purple-700 text-purple-200 rounded-full px-2 py-0.5">
+                        <a href={linkedIssue.url} target="_blank" rel="noopener noreferrer" className="hover:underline" title={linkedIssue.title}>Fixes #{linkedIssue.number}</a>
+                        <button onClick={() => setLinkedIssue(null)} aria-label="Unlink issue" className="hover:text-white">×</button>
+                    </span>
+                )}
                 <textarea
                     id="modification-request"
                     value={modificationRequest}
                     onChange={(e) => setModificationRequest(e.target.value)}
-                    placeholder={files.length > 0 ? "e.g., 'Refactor the selected files to use arrow functions.'" : "e.g., 'Create a React button component with styling.'" }
+                    placeholder={hasModifications ? "Follow up on the plan, e.g., 'Also update the tests.'" : files.length > 0 ? "e.g., 'Refactor the selected files to use arrow functions.'" : "e.g., 'Create a React button component with styling.'" }
                     className="w-full h-16 p-2 pr-12 bg-bunker-900 border border-bunker-700 rounded-md resize-none focus:outline-none focus:ring-2 focus:ring-sky-500"
                     rows={2}
                 />
                 <IconButton 
                     ariaLabel="Clear instructions" 
-                    onClick={() => setModificationRequest('')}
+                    onClick={() => { setModificationRequest(''); setLinkedIssue(null); }}
                     className="absolute right-2 top-1/2 -translate-y-1/2"
                     disabled={!modificationRequest}
                 >
@@ -474,27 +1237,71 @@ const App: React.FC = () => {
                 </IconButton>
              </div>
              <div className="flex items-center gap-2">
+                <div className="flex flex-col self-start">
+                   <span className="text-xs text-bunker-400 mb-1">Template</span>
+                   <PromptTemplatePicker
+                      templates={promptTemplates}
+                      activeFileName={activeFile ? activeFileName : null}
+                      selection={editorSelection}
+                      currentInstruction={modificationRequest}
+                      disabled={isLoading}
+                      onApply={setModificationRequest}
+                      onTemplatesChange={handlePromptTemplatesChange}
+                   />
+                </div>
                 <div className="flex flex-col">
                    <label htmlFor="model-selector" className="text-xs text-bunker-400 mb-1">AI Model</label>
-                   <select
-                      id="model-selector"
-                      value={selectedModel}
-                      onChange={(e) => setSelectedModel(e.target.value as ModelOption)}
-                      className="bg-bunker-900 border border-bunker-700 rounded-md p-2 h-10 focus:outline-none focus:ring-2 focus:ring-sky-500 text-sm"
-                      aria-label="Select AI Model"
-                    >
-                      <option value="flash">Flash (Fast)</option>
-                      <option value="pro">Pro (Advanced)</option>
-                    </select>
+                   <div className="flex items-center gap-1">
+                     <select
+                        id="model-selector"
+                        value={selectedModel.id}
+                        onChange={(e) => handleSelectModel(e.target.value)}
+                        className="bg-bunker-900 border border-bunker-700 rounded-md p-2 h-10 max-w-48 focus:outline-none focus:ring-2 focus:ring-sky-500 text-sm"
+                        aria-label="Select AI Model"
+                      >
+                        {llmSettings.models.map(model => <option key={model.id} value={model.id}>{model.label}</option>)}
+                      </select>
+                      <IconButton ariaLabel="AI settings" onClick={() => setIsAiSettingsOpen(true)}>
+                        <SlidersIcon className="h-4 w-4" />
+                      </IconButton>
+                   </div>
+                   {files.length > 0 && (
+                     <label className="flex items-center gap-1 text-xs text-bunker-400 mt-1" title="Let the AI propose which files to edit and read, and confirm them before the plan is made">
+                       <input
+                         type="checkbox"
+                         checked={isAutoSelect}
+                         onChange={(e) => setIsAutoSelect(e.target.checked)}
+                         disabled={hasModifications}
+                         className="form-checkbox h-3 w-3 bg-bunker-900 border-bunker-600 rounded text-sky-500 focus:ring-sky-500"
+                       />
+                       Auto-select files
+                     </label>
+                   )}
+                   {files.length > 0 && (
+                     <label className="flex items-center gap-1 text-xs text-bunker-400 mt-1" title="How the AI writes changes to existing files. Automatically, small files are rewritten whole and larger ones get diffs.">
+                       Edits as
+                       <select
+                         value={editFormat}
+                         onChange={(e) => setEditFormat(e.target.value as EditFormat | 'auto')}
+                         className="bg-bunker-900 border border-bunker-700 rounded px-1 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-sky-500"
+                       >
+                         <option value="auto">Auto (by size)</option>
+                         <option value="snippet">Snippets</option>
+                         <option value="diff">Unified diff</option>
+                         <option value="rewrite">Whole file</option>
+                       </select>
+                     </label>
+                   )}
+                   {!(isAutoSelect && !hasModifications) && contextBudget && <ContextBudgetIndicator budget={contextBudget} modelLabel={selectedModel.label} />}
                 </div>
                 <ActionButton
-                  onClick={handleGenerateOrModify}
+                  onClick={handleApplyClick}
                   isLoading={isLoading}
-                  disabled={!modificationRequest || isLoading}
+                  disabled={!modificationRequest || isLoading || !!checkedOut}
                   icon={<WandIcon />}
                   className="h-16 self-end"
                 >
-                  {isLoading ? 'Thinking...' : (files.length > 0 ? 'Apply Changes' : 'Generate Code')}
+                  {isLoading ? 'Thinking...' : hasModifications ? 'Refine Plan' : (files.length > 0 ? 'Apply Changes' : 'Generate Code')}
                 </ActionButton>
              </div>
         </footer>
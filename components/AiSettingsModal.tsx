@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { LlmProviderId, LlmSettings } from '../types';
+import { LLM_PROVIDERS, getLlmProvider } from '../services/llmProvider';
+import ActionButton from './ActionButton';
+import IconButton from './IconButton';
+import { LoaderIcon, Trash2Icon } from './Icons';
+import { DEFAULT_CONTEXT_WINDOW } from '../utils/tokens';
+
+interface AiSettingsModalProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+  onClose: () => void;
+}
+
+const inputClassName = "w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500";
+
+const AiSettingsModal: React.FC<AiSettingsModalProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState(settings);
+  const [newModelId, setNewModelId] = useState('');
+  const [isFetchingModels, setIsFetchingModels] = useState(false);
+  const [modelsError, setModelsError] = useState<string | null>(null);
+
+  const provider = getLlmProvider(draft.connection.provider);
+  const updateConnection = (changes: Partial<LlmSettings['connection']>) =>
+    setDraft(current => ({ ...current, connection: { ...current.connection, ...changes } }));
+
+  const handleProviderChange = (id: LlmProviderId) => {
+    // Endpoints and model names don't carry over between providers
+    setDraft(current => ({ ...current, connection: { provider: id, baseUrl: '', apiKey: '' }, models: getLlmProvider(id).defaultModels }));
+    setModelsError(null);
+  };
+
+  const handleFetchModels = async () => {
+    setIsFetchingModels(true);
+    setModelsError(null);
+    try {
+      const models = await provider.fetchModels(draft.connection);
+      if (models.length === 0) throw new Error('The endpoint didn\'t list any models.');
+      setDraft(current => ({ ...current, models }));
+    } catch (e) {
+      setModelsError(e instanceof Error ? e.message : 'An unknown error occurred.');
+    } finally {
+      setIsFetchingModels(false);
+    }
+  };
+
+  const handleAddModel = () => {
+    const id = newModelId.trim();
+    if (!id || draft.models.some(m => m.id === id)) return;
+    setDraft(current => ({ ...current, models: [...current.models, { id, label: id }] }));
+    setNewModelId('');
+  };
+
+  const handleContextWindowChange = (id: string, value: string) => {
+    const contextWindow = parseInt(value, 10);
+    setDraft(current => ({
+      ...current,
+      models: current.models.map(m => m.id === id ? { ...m, contextWindow: contextWindow > 0 ? contextWindow : undefined } : m),
+    }));
+  };
+
+  const handleRemoveModel = (id: string) => {
+    setDraft(current => ({ ...current, models: current.models.filter(m => m.id !== id) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-bunker-900 w-full max-w-xl rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700 max-h-full">
+        <header className="flex-shrink-0 p-4 border-b border-bunker-700">
+          <h2 className="text-lg font-semibold text-sky-400">AI Settings</h2>
+          <p className="text-sm text-bunker-400">Choose the model provider that plans and writes the changes.</p>
+        </header>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <label htmlFor="llm-provider" className="text-xs text-bunker-400">Provider</label>
+            <select
+              id="llm-provider"
+              value={draft.connection.provider}
+              onChange={(e) => handleProviderChange(e.target.value as LlmProviderId)}
+              className={inputClassName}
+            >
+              {LLM_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="llm-base-url" className="text-xs text-bunker-400">Base URL</label>
+            <input
+              id="llm-base-url"
+              type="url"
+              value={draft.connection.baseUrl}
+              onChange={(e) => updateConnection({ baseUrl: e.target.value })}
+              placeholder={provider.defaultBaseUrl}
+              className={inputClassName}
+            />
+            {provider.id === 'openai' && (
+              <p className="text-xs text-bunker-500 mt-1">
+                Any chat completions endpoint works, e.g. <span className="font-mono">http://localhost:11434/v1</span> for Ollama or <span className="font-mono">http://localhost:8080/v1</span> for llama.cpp.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="llm-api-key" className="text-xs text-bunker-400">API key</label>
+            <input
+              id="llm-api-key"
+              type="password"
+              value={draft.connection.apiKey}
+              onChange={(e) => updateConnection({ apiKey: e.target.value })}
+              placeholder={provider.requiresApiKey ? 'API key' : 'API key (optional for local servers)'}
+              className={inputClassName}
+            />
+            <p className="text-xs text-bunker-500 mt-1">
+              The key is kept for this browser tab only.{provider.id === 'gemini' && ' Leave it empty to use the key the app was built with.'}
+            </p>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs text-bunker-400">Models</span>
+              <button
+                onClick={handleFetchModels}
+                disabled={isFetchingModels}
+                className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 flex items-center gap-1"
+              >
+                {isFetchingModels && <LoaderIcon />} Fetch from endpoint
+              </button>
+            </div>
+            <ul className="max-h-40 overflow-y-auto divide-y divide-bunker-800 border border-bunker-800 rounded-md">
+              {draft.models.map(model => (
+                <li key={model.id} className="flex items-center gap-2 px-2 py-1 text-sm">
+                  <span className="truncate flex-grow text-bunker-200">{model.label}</span>
+                  {model.label !== model.id && <span className="font-mono text-xs text-bunker-500 truncate">{model.id}</span>}
+                  <input
+                    type="number"
+                    min={1}
+                    value={model.contextWindow ?? ''}
+                    onChange={(e) => handleContextWindowChange(model.id, e.target.value)}
+                    placeholder={String(DEFAULT_CONTEXT_WINDOW)}
+                    title="Context window in tokens"
+                    aria-label={`Context window of ${model.id} in tokens`}
+                    className="w-24 flex-shrink-0 px-1 py-0.5 bg-bunker-800 border border-bunker-700 rounded text-xs text-right focus:outline-none focus:ring-2 focus:ring-sky-500"
+                  />
+                  <IconButton ariaLabel={`Remove ${model.id}`} onClick={() => handleRemoveModel(model.id)}>
+                    <Trash2Icon className="h-3 w-3" />
+                  </IconButton>
+                </li>
+              ))}
+              {draft.models.length === 0 && <li className="px-2 py-1 text-sm text-bunker-500">Add at least one model.</li>}
+            </ul>
+            <p className="text-xs text-bunker-500 mt-1">
+              The number beside each model is its context window in tokens. Context files that don't fit are trimmed; {DEFAULT_CONTEXT_WINDOW.toLocaleString()} is assumed when it's empty.
+            </p>
+            {modelsError && <p className="text-red-400 text-xs mt-1">{modelsError}</p>}
+            <div className="flex gap-2 mt-2">
+              <input
+                type="text"
+                value={newModelId}
+                onChange={(e) => setNewModelId(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleAddModel(); }}
+                placeholder="Model name, e.g. llama3.1:8b"
+                className={inputClassName}
+                aria-label="Model name to add"
+              />
+              <button
+                onClick={handleAddModel}
+                disabled={!newModelId.trim()}
+                className="px-3 text-sm rounded-md bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label htmlFor="llm-repair-attempts" className="text-xs text-bunker-400">Repair attempts for failed edits</label>
+            <input
+              id="llm-repair-attempts"
+              type="number"
+              min={0}
+              max={5}
+              value={draft.maxRepairAttempts}
+              onChange={(e) => setDraft(current => ({ ...current, maxRepairAttempts: Math.min(5, Math.max(0, parseInt(e.target.value, 10) || 0)) }))}
+              className={inputClassName}
+            />
+            <p className="text-xs text-bunker-500 mt-1">
+              Edits whose code can't be found in the file are sent back to the model with the file's actual content, up to this many times. 0 turns this off.
+            </p>
+          </div>
+        </div>
+
+        <footer className="flex-shrink-0 flex items-center justify-end gap-3 p-4 border-t border-bunker-700">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-bunker-700 text-white rounded-md hover:bg-bunker-600 transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            Cancel
+          </button>
+          <ActionButton onClick={() => onSave(draft)} disabled={draft.models.length === 0}>
+            Save
+          </ActionButton>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsModal;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ApplyTally, FailedOperation } from '../types';
+
+interface ApplyTallySummaryProps {
+  tally: ApplyTally;
+  abandoned: FailedOperation[];
+}
+
+/**
+ * Reports how many in-file edits of the plan were applied, repaired by the model or given up on.
+ */
+const ApplyTallySummary: React.FC<ApplyTallySummaryProps> = ({ tally, abandoned }) => {
+  const hasAbandoned = tally.abandoned > 0;
+  return (
+    <div className={`flex-shrink-0 lg:w-1/4 px-4 py-3 rounded-md border text-sm ${hasAbandoned ? 'bg-amber-900/40 border-amber-700 text-amber-100' : 'bg-bunker-900 border-bunker-800 text-bunker-200'}`} role="status">
+      <h3 className="font-bold mb-1">Edits</h3>
+      <p>
+        {tally.applied} applied
+        {tally.repaired > 0 && <> · <span className="text-sky-300">{tally.repaired} repaired</span></>}
+        {hasAbandoned && <> · <span className="text-amber-300">{tally.abandoned} abandoned</span></>}
+      </p>
+      {hasAbandoned && (
+        <details className="mt-1">
+          <summary className="text-xs cursor-pointer">Why edits were abandoned</summary>
+          <ul className="mt-1 space-y-1 max-h-32 overflow-y-auto">
+            {abandoned.map((failure, index) => (
+              <li key={index} className="text-xs">
+                <span className="font-mono">{failure.operation.fileName}</span>: {failure.reason}
+              </li>
+            ))}
+            {abandoned.length < tally.abandoned && (
+              <li className="text-xs">{tally.abandoned - abandoned.length} more were left out of the model's corrections.</li>
+            )}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ApplyTallySummary;
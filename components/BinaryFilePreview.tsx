@@ -0,0 +1,52 @@
+import React from 'react';
+import { UploadedFile } from '../types';
+import { formatBytes } from '../utils/format';
+import { FileTextIcon, FolderGitIcon } from './Icons';
+
+// Decoded size of the base64 payload of a data URL
+const getBinarySize = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+/**
+ * Shows a file that isn't editable text: images are rendered; other binary files, Git LFS objects
+ * and submodules are summarised since they can't be displayed or edited.
+ */
+const BinaryFilePreview: React.FC<{ file: UploadedFile }> = ({ file }) => {
+  if (file.isSubmodule) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-sm text-bunker-400">
+        <FolderGitIcon className="w-10 h-10" />
+        <p>Submodule at commit <span className="font-mono">{file.sha?.slice(0, 7)}</span></p>
+        <p className="text-xs text-bunker-500">Submodules are read-only and are committed back unchanged.</p>
+      </div>
+    );
+  }
+  if (file.lfsPointer) {
+    return (
+      <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-sm text-bunker-400">
+        <FileTextIcon className="w-10 h-10" />
+        <p>Git LFS object ({formatBytes(file.lfsPointer.size)}, <span className="font-mono">{file.lfsPointer.oid.slice(0, 12)}</span>)</p>
+        <p className="text-xs text-bunker-500">Only the LFS pointer is fetched. It can't be edited, and is committed back unchanged.</p>
+      </div>
+    );
+  }
+  if (file.type.startsWith('image/')) {
+    return (
+      <div className="p-4 flex-grow overflow-auto bg-bunker-950/50 flex items-center justify-center h-full">
+        <img src={file.content} alt={file.name} className="max-w-full max-h-full object-contain rounded-md" />
+      </div>
+    );
+  }
+  return (
+    <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-sm text-bunker-400">
+      <FileTextIcon className="w-10 h-10" />
+      <p>Binary file ({file.type}, {formatBytes(getBinarySize(file.content))})</p>
+      <p className="text-xs text-bunker-500">Binary files can't be displayed or edited, and are committed back unchanged.</p>
+    </div>
+  );
+};
+
+export default BinaryFilePreview;
@@ -1,7 +1,10 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { ModificationPlan, UploadedFile } from '../types';
+import { CommitComparison, ModificationPlan, UploadedFile } from '../types';
+import { diffLines } from '../utils/diff';
+import { isEditableText } from '../utils/blob';
 import CodeEditor from './CodeEditor';
-import { FileCodeIcon, FileImageIcon, FileTextIcon, PencilIcon, Trash2Icon, LightbulbIcon } from './Icons';
+import BinaryFilePreview from './BinaryFilePreview';
+import { FileCodeIcon, FileImageIcon, FileTextIcon, PencilIcon, Trash2Icon, LightbulbIcon, LoaderIcon } from './Icons';
 
 interface ModifiedResult {
   modifiedFiles: UploadedFile[];
@@ -12,6 +15,23 @@ interface ModifiedResult {
 interface ChangesViewProps {
   originalFiles: UploadedFile[];
   modifiedResult: ModifiedResult | null;
+  comparison?: CommitComparison | null; // Shown instead of the pending modifications when set
+  onCloseComparison?: () => void;
+  isGenerating?: boolean; // The plan is still streaming in; modifiedResult holds the operations received so far
+}
+
+// The file shown for a change; a modified file also carries its version before the change
+type FileChange =
+    | { kind: 'created' | 'deleted', file: UploadedFile }
+    | { kind: 'modified', file: UploadedFile, original: UploadedFile };
+
+interface ChangeCategoryProps {
+  title: string;
+  files: UploadedFile[];
+  color: 'yellow' | 'green' | 'red';
+  icon: React.ReactNode;
+  onFileClick: (fileName: string) => void;
+  activeFileName: string | null;
 }
 
 const getFileIcon = (fileType: string) => {
@@ -21,61 +41,94 @@ const getFileIcon = (fileType: string) => {
     return <FileTextIcon />;
 }
 
-const ChangesView: React.FC<ChangesViewProps> = ({ originalFiles, modifiedResult }) => {
+// Where no snippet points at the new code, as in commit comparisons, diffs and rewrites, additions are found by diffing the two versions
+const getAddedBlocks = (original: UploadedFile, modified: UploadedFile): string[] => {
+    const modifiedLines = modified.content.split('\n');
+    return diffLines(original.content.split('\n'), modifiedLines)
+        .filter(hunk => hunk.bEnd > hunk.bStart)
+        .map(hunk => modifiedLines.slice(hunk.bStart, hunk.bEnd).join('\n'));
+};
+
+const ChangesView: React.FC<ChangesViewProps> = ({ originalFiles, modifiedResult, comparison, onCloseComparison, isGenerating }) => {
   const [activeChangeFile, setActiveChangeFile] = useState<string | null>(null);
 
   const changes = useMemo(() => {
+    if (comparison) {
+        const baseMap = new Map(comparison.originalFiles.map(f => [f.name, f]));
+        const headNames = new Set(comparison.modifiedFiles.map(f => f.name));
+        return {
+            created: comparison.modifiedFiles.filter(f => !baseMap.has(f.name)),
+            deleted: comparison.originalFiles.filter(f => !headNames.has(f.name)),
+            modified: comparison.modifiedFiles
+                .filter(f => baseMap.has(f.name))
+                .map(f => ({ original: baseMap.get(f.name)!, modified: f })),
+        };
+    }
     if (!modifiedResult) return null;
     const { modifiedFiles, plan } = modifiedResult;
 
     const originalMap = new Map(originalFiles.map(f => [f.name, f]));
     const modifiedMap = new Map(modifiedFiles.map(f => [f.name, f]));
 
-    const created = plan.newFiles?.map(f => modifiedMap.get(f.fileName)!) ?? [];
+    // New files that would replace a submodule or Git LFS file aren't written, so only those actually in place are listed
+    const created = (plan.newFiles ?? [])
+        .map(f => modifiedMap.get(f.fileName))
+        .filter((file): file is UploadedFile => !!file && originalMap.get(file.name)?.content !== file.content);
     
-    const deleted = plan.deleteFiles?.map(fName => originalMap.get(fName)!).filter(Boolean) ?? [];
+    const deleted = (plan.deleteFiles ?? [])
+        .map(fName => originalMap.get(fName))
+        .filter((file): file is UploadedFile => !!file);
 
-    const modified = (plan.modify ?? [])
-        .map(mod => mod.fileName)
+    const modified = [...(plan.modify ?? []), ...(plan.delete ?? []), ...(plan.patch ?? []), ...(plan.rewrite ?? [])]
+        .map(op => op.fileName)
         .filter((value, index, self) => self.indexOf(value) === index) // unique file names
-        .map(fName => ({
-            original: originalMap.get(fName)!,
-            modified: modifiedMap.get(fName)!
-        }))
-        .filter(item => item.original && item.modified);
+        .flatMap(fName => {
+            const original = originalMap.get(fName);
+            const modifiedFile = modifiedMap.get(fName);
+            return original && modifiedFile ? [{ original, modified: modifiedFile }] : [];
+        });
 
     return { created, deleted, modified };
-  }, [originalFiles, modifiedResult]);
+  }, [originalFiles, modifiedResult, comparison]);
 
   useEffect(() => {
       if (changes) {
+          // Keep the open file while a streaming plan grows
           const firstChange = changes.modified[0]?.modified || changes.created[0] || changes.deleted[0];
-          setActiveChangeFile(firstChange?.name ?? null);
+          const names = [...changes.created, ...changes.deleted, ...changes.modified.map(m => m.modified)].map(f => f.name);
+          setActiveChangeFile(current => current && names.includes(current) ? current : firstChange?.name ?? null);
       } else {
           setActiveChangeFile(null);
       }
   }, [changes]);
   
-  if (!modifiedResult || !changes) {
+  if (!changes) {
     return (
         <div className="flex flex-col h-full bg-bunker-900 rounded-lg border border-bunker-700 overflow-hidden shadow-lg">
             <header className="flex items-center justify-between bg-bunker-800/50 px-4 py-2 border-b border-bunker-700 flex-shrink-0">
                 <h2 className="text-sm font-medium text-bunker-300">Changes Overview</h2>
             </header>
             <div className="w-full flex-grow p-4 overflow-auto font-mono text-sm text-bunker-500 flex items-center justify-center text-center">
-                <span>Code modifications will appear here once generated.</span>
+                {isGenerating
+                    ? <span className="flex items-center gap-2 text-sky-400"><LoaderIcon /> Waiting for the first change...</span>
+                    : <span>Code modifications will appear here once generated.</span>}
             </div>
         </div>
     );
   }
 
-  const activeFileChange = 
-      changes.created.find(f => f.name === activeChangeFile) ||
-      changes.modified.find(m => m.modified.name === activeChangeFile) ||
-      changes.deleted.find(f => f.name === activeChangeFile);
+  const findActiveChange = (): FileChange | null => {
+      const created = changes.created.find(f => f.name === activeChangeFile);
+      if (created) return { kind: 'created', file: created };
+      const modification = changes.modified.find(m => m.modified.name === activeChangeFile);
+      if (modification) return { kind: 'modified', file: modification.modified, original: modification.original };
+      const deleted = changes.deleted.find(f => f.name === activeChangeFile);
+      return deleted ? { kind: 'deleted', file: deleted } : null;
+  };
+  const activeFileChange = findActiveChange();
 
   const getHighlights = (fileName: string, type: 'add' | 'del') => {
-      if (!modifiedResult.plan) return [];
+      if (!modifiedResult?.plan) return [];
       if (type === 'add') {
           return modifiedResult.plan.modify?.filter(m => m.fileName === fileName).map(m => m.newCode) ?? [];
       }
@@ -87,44 +140,31 @@ const ChangesView: React.FC<ChangesViewProps> = ({ originalFiles, modifiedResult
         return <div className="w-full h-full flex items-center justify-center text-bunker-500">Select a file to see the changes.</div>
     }
     
-    const isCreated = changes.created.some(f => f.name === activeChangeFile);
-    const isDeleted = changes.deleted.some(f => f.name === activeChangeFile);
-    const isModified = changes.modified.some(m => m.modified.name === activeChangeFile);
-    
-    const fileData = (activeFileChange as any).modified || (activeFileChange as any).original || activeFileChange;
-    const isImage = fileData.type.startsWith('image/');
-    
-    if (isImage) {
-        return (
-            <div className="p-4 flex-grow overflow-auto bg-bunker-950/50 flex items-center justify-center h-full">
-                <img src={fileData.content} alt={fileData.name} className="max-w-full max-h-full object-contain rounded-md" />
-            </div>
-        );
-    }
-    
-    if (isCreated) {
-        return <CodeEditor value={fileData.content} readOnly={true} showLineNumbers={true} />;
+    const fileData = activeFileChange.file;
+    if (!isEditableText(fileData)) {
+        return <BinaryFilePreview file={fileData} />;
     }
     
-    if (isDeleted) {
-        return <CodeEditor value={fileData.content} readOnly={true} showLineNumbers={true} highlightColor="red" highlights={[fileData.content]} />;
+    switch (activeFileChange.kind) {
+        case 'created':
+            return <CodeEditor value={fileData.content} readOnly={true} showLineNumbers={true} />;
+        case 'deleted':
+            return <CodeEditor value={fileData.content} readOnly={true} showLineNumbers={true} highlightColor="red" highlights={[fileData.content]} />;
+        case 'modified': {
+            const isSnippetEdit = !comparison && !modifiedResult?.plan.patch?.some(p => p.fileName === activeChangeFile) && !modifiedResult?.plan.rewrite?.some(r => r.fileName === activeChangeFile);
+            const highlights = isSnippetEdit ? getHighlights(fileData.name, 'add') : getAddedBlocks(activeFileChange.original, fileData);
+            return <CodeEditor value={fileData.content} readOnly={true} showLineNumbers={true} highlightColor="green" highlights={highlights} />;
+        }
     }
-    
-    if (isModified) {
-        const modInfo = activeFileChange as { original: UploadedFile, modified: UploadedFile };
-        return <CodeEditor value={modInfo.modified.content} readOnly={true} showLineNumbers={true} highlightColor="green" highlights={getHighlights(modInfo.modified.name, 'add')} />;
-    }
-    
-    return null;
   };
 
-  const ChangeCategory = ({ title, files, color, icon, onFileClick, activeFileName }: any) => {
-    if (!files || files.length === 0) return null;
+  const ChangeCategory = ({ title, files, color, icon, onFileClick, activeFileName }: ChangeCategoryProps) => {
+    if (files.length === 0) return null;
     return (
         <div>
             <h3 className={`text-xs font-bold uppercase text-${color}-400 px-2 pt-2 pb-1 flex items-center gap-1.5`}>{icon}{title} ({files.length})</h3>
             <ul>
-                {files.map((file: any) => (
+                {files.map(file => (
                     <li key={file.name} 
                         className={`flex items-center gap-2 p-2 rounded-md cursor-pointer text-sm ${activeFileName === file.name ? `bg-${color}-500/20 text-${color}-300` : `hover:bg-bunker-700/50 text-bunker-300`}`}
                         onClick={() => onFileClick(file.name)}
@@ -141,7 +181,17 @@ const ChangesView: React.FC<ChangesViewProps> = ({ originalFiles, modifiedResult
   return (
     <div className="flex flex-col h-full bg-bunker-900 rounded-lg border border-bunker-700 overflow-hidden shadow-lg">
       <header className="flex items-center justify-between bg-bunker-800/50 px-4 py-2 border-b border-bunker-700 flex-shrink-0">
-        <h2 className="text-sm font-medium text-bunker-300">Changes Overview</h2>
+        <h2 className="text-sm font-medium text-bunker-300">
+          {comparison
+            ? <>Changes {comparison.label ?? <><span className="font-mono">{comparison.baseSha.slice(0, 7)}</span> → <span className="font-mono">{comparison.headSha.slice(0, 7)}</span></>}</>
+            : 'Changes Overview'}
+          {isGenerating && !comparison && <span className="ml-2 inline-flex items-center gap-1 text-xs text-sky-400"><LoaderIcon /> Generating...</span>}
+        </h2>
+        {comparison && onCloseComparison && (
+          <button onClick={onCloseComparison} className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600">
+            Close comparison
+          </button>
+        )}
       </header>
 
       <div className="flex flex-grow min-h-0">
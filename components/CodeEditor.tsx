@@ -53,9 +53,10 @@ interface CodeEditorProps {
   highlights?: string[];
   highlightColor?: 'green' | 'red';
   showLineNumbers?: boolean;
+  onSelectionChange?: (selectedText: string) => void;
 }
 
-const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly = false, placeholder, highlights, highlightColor = 'green', showLineNumbers = true }) => {
+const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly = false, placeholder, highlights, highlightColor = 'green', showLineNumbers = true, onSelectionChange }) => {
   const lineNumbersRef = useRef<HTMLDivElement>(null);
   const editorRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -80,6 +81,14 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly = fal
     }
   };
 
+  // The read-only view is a plain <pre>, so its selection is read from the document
+  const reportDocumentSelection = () => {
+    if (!onSelectionChange) return;
+    const selection = window.getSelection();
+    const isInEditor = selection && editorRef.current && selection.anchorNode && editorRef.current.contains(selection.anchorNode);
+    onSelectionChange(isInEditor ? selection.toString() : '');
+  };
+
   return (
     <div className="flex flex-grow h-full overflow-hidden font-mono text-sm bg-bunker-900 leading-relaxed">
       {showLineNumbers && (
@@ -98,6 +107,8 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly = fal
       <div className="relative flex-grow h-full">
         <pre 
             onScroll={(e) => readOnly && syncScroll(e.currentTarget)}
+            onMouseUp={readOnly ? reportDocumentSelection : undefined}
+            onKeyUp={readOnly ? reportDocumentSelection : undefined}
             className={`w-full h-full p-4 overflow-auto m-0 ${readOnly ? '' : 'absolute inset-0 pointer-events-none'}`}
           >
             <code 
@@ -112,6 +123,7 @@ const CodeEditor: React.FC<CodeEditorProps> = ({ value, onChange, readOnly = fal
             onChange={onChange}
             placeholder={placeholder}
             onScroll={(e) => syncScroll(e.currentTarget)}
+            onSelect={(e) => onSelectionChange?.(e.currentTarget.value.slice(e.currentTarget.selectionStart, e.currentTarget.selectionEnd))}
             className={`transparent-caret-textarea w-full h-full p-4 bg-transparent text-transparent resize-none focus:outline-none absolute inset-0 m-0 overflow-auto whitespace-pre-wrap break-words ${!showLineNumbers ? 'pl-4' : ''}`}
             spellCheck="false"
           />
@@ -0,0 +1,151 @@
+import React, { useState, useEffect } from 'react';
+import { CommitDetails } from '../types';
+import ActionButton from './ActionButton';
+import { GithubIcon, LoaderIcon, WandIcon } from './Icons';
+import { MAX_SUBJECT_LENGTH, getSubjectLine, isTrailerLine, parseTrailerLines } from '../utils/commitMessage';
+
+interface CommitDialogProps {
+  targetBranch: string;
+  changeSummary: string; // e.g. '3 files changed, 1 deleted'
+  draft: string; // Replaces the message whenever a new draft arrives
+  isDrafting: boolean;
+  draftError: string | null;
+  commitError: string | null;
+  isCommitting: boolean;
+  onRedraft: () => void;
+  onCommit: (details: CommitDetails) => void;
+  onCancel: () => void;
+}
+
+const AUTHOR_NAME_KEY = 'commit_author_name';
+const AUTHOR_EMAIL_KEY = 'commit_author_email';
+const TRAILERS_KEY = 'commit_trailers';
+
+const CommitDialog: React.FC<CommitDialogProps> = ({
+  targetBranch, changeSummary, draft, isDrafting, draftError, commitError, isCommitting, onRedraft, onCommit, onCancel
+}) => {
+  const [message, setMessage] = useState(draft);
+  const [authorName, setAuthorName] = useState(() => localStorage.getItem(AUTHOR_NAME_KEY) ?? '');
+  const [authorEmail, setAuthorEmail] = useState(() => localStorage.getItem(AUTHOR_EMAIL_KEY) ?? '');
+  const [trailersText, setTrailersText] = useState(() => localStorage.getItem(TRAILERS_KEY) ?? '');
+
+  useEffect(() => {
+    setMessage(draft);
+  }, [draft]);
+
+  const subject = getSubjectLine(message);
+  const trailers = parseTrailerLines(trailersText);
+  const invalidTrailers = trailers.filter(line => !isTrailerLine(line));
+  // A partial identity can't be sent, so both parts are required to override the default author
+  const hasPartialAuthor = !!authorName.trim() !== !!authorEmail.trim();
+  const canCommit = !!subject.trim() && invalidTrailers.length === 0 && !hasPartialAuthor && !isDrafting;
+
+  const handleCommitClick = () => {
+    localStorage.setItem(AUTHOR_NAME_KEY, authorName.trim());
+    localStorage.setItem(AUTHOR_EMAIL_KEY, authorEmail.trim());
+    localStorage.setItem(TRAILERS_KEY, trailersText);
+    onCommit({
+      message,
+      author: authorName.trim() ? { name: authorName.trim(), email: authorEmail.trim() } : undefined,
+      trailers,
+    });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-bunker-900 w-full max-w-2xl rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700">
+        <header className="flex-shrink-0 p-4 border-b border-bunker-700">
+          <h2 className="text-lg font-semibold text-sky-400">Commit Changes</h2>
+          <p className="text-sm text-bunker-400">{changeSummary} on <span className="font-mono">{targetBranch}</span></p>
+        </header>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <label htmlFor="commit-message" className="text-xs text-bunker-400">Commit message</label>
+              <div className="flex items-center gap-3">
+                <span className={`text-xs font-mono ${subject.length > MAX_SUBJECT_LENGTH ? 'text-amber-400' : 'text-bunker-500'}`}>
+                  subject {subject.length}/{MAX_SUBJECT_LENGTH}
+                </span>
+                <button
+                  onClick={onRedraft}
+                  disabled={isDrafting || isCommitting}
+                  className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 flex items-center gap-1"
+                >
+                  {isDrafting ? <LoaderIcon /> : <WandIcon className="w-3 h-3" />} Redraft with AI
+                </button>
+              </div>
+            </div>
+            <textarea
+              id="commit-message"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              disabled={isDrafting}
+              placeholder={isDrafting ? 'Drafting a commit message...' : 'feat(scope): summary of the change'}
+              rows={10}
+              className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-60"
+            />
+            {draftError && <p className="text-amber-400 text-xs mt-1">{draftError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <input
+              type="text"
+              value={authorName}
+              onChange={(e) => setAuthorName(e.target.value)}
+              placeholder="Author name (default: token owner)"
+              className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label="Author name"
+            />
+            <input
+              type="email"
+              value={authorEmail}
+              onChange={(e) => setAuthorEmail(e.target.value)}
+              placeholder="Author email"
+              className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label="Author email"
+            />
+            {hasPartialAuthor && <p className="col-span-2 text-red-400 text-xs">Enter both an author name and email, or leave both empty.</p>}
+          </div>
+
+          <div>
+            <label htmlFor="commit-trailers" className="text-xs text-bunker-400">Trailers, one per line</label>
+            <textarea
+              id="commit-trailers"
+              value={trailersText}
+              onChange={(e) => setTrailersText(e.target.value)}
+              placeholder="Co-authored-by: Jane Doe <jane@example.com>"
+              rows={2}
+              className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+            />
+            {invalidTrailers.length > 0 && (
+              <p className="text-red-400 text-xs">Trailers must look like 'Token: value': {invalidTrailers.join(', ')}</p>
+            )}
+          </div>
+        </div>
+
+        <footer className="flex-shrink-0 flex items-center justify-end gap-3 p-4 border-t border-bunker-700">
+          {commitError && <p className="text-red-400 text-sm mr-auto">{commitError}</p>}
+          <button
+            onClick={onCancel}
+            disabled={isCommitting}
+            className="px-4 py-2 bg-bunker-700 text-white rounded-md hover:bg-bunker-600 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            Cancel
+          </button>
+          <ActionButton
+            onClick={handleCommitClick}
+            disabled={!canCommit}
+            isLoading={isCommitting}
+            icon={<GithubIcon />}
+            className="bg-purple-600 hover:bg-purple-700 disabled:bg-bunker-700"
+          >
+            Commit
+          </ActionButton>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default CommitDialog;
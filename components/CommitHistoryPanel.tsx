@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { CommitSummary } from '../types';
+import { formatRelativeTime } from '../utils/format';
+import { HistoryIcon, LoaderIcon } from './Icons';
+
+interface CommitHistoryPanelProps {
+  branchName: string;
+  commits: CommitSummary[];
+  hasMore: boolean;
+  isLoading: boolean;
+  headSha: string; // The commit the workspace was fetched from
+  checkedOutSha: string | null; // A past commit currently shown read-only, if any
+  comparedShas: [string, string] | null;
+  onLoadMore: () => void;
+  onCheckout: (commit: CommitSummary) => void;
+  onReturnToHead: () => void;
+  onCompare: (base: CommitSummary, head: CommitSummary) => void;
+}
+
+const CommitHistoryPanel: React.FC<CommitHistoryPanelProps> = ({
+  branchName, commits, hasMore, isLoading, headSha, checkedOutSha, comparedShas,
+  onLoadMore, onCheckout, onReturnToHead, onCompare
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedShas, setSelectedShas] = useState<string[]>([]);
+
+  const toggleSelected = (sha: string) => {
+    setSelectedShas(current => current.includes(sha)
+      ? current.filter(s => s !== sha)
+      // Keep at most two, dropping the oldest pick
+      : [...current, sha].slice(-2));
+  };
+
+  const handleCompareClick = () => {
+    const picked = commits.filter(c => selectedShas.includes(c.sha));
+    if (picked.length !== 2) return;
+    // The list is newest first, so the later entry is the base
+    onCompare(picked[1], picked[0]);
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-bunker-900 p-3 rounded-lg border border-bunker-800">
+      <div className="flex items-center justify-between">
+        <button onClick={() => setIsOpen(!isOpen)} className="text-base font-semibold text-bunker-200 flex items-center gap-2" aria-expanded={isOpen}>
+          <HistoryIcon/> Commit History <span className="text-sm font-normal text-bunker-400 font-mono">{branchName}</span>
+        </button>
+        <div className="flex items-center gap-2 text-sm">
+          {checkedOutSha && (
+            <>
+              <span className="text-amber-300">Viewing <span className="font-mono">{checkedOutSha.slice(0, 7)}</span> (read-only)</span>
+              <button onClick={onReturnToHead} className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600">
+                Back to {branchName}
+              </button>
+            </>
+          )}
+          {isOpen && (
+            <button
+              onClick={handleCompareClick}
+              disabled={selectedShas.length !== 2 || isLoading}
+              className="text-xs px-2 py-1 rounded bg-sky-700 text-white hover:bg-sky-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Compare selected
+            </button>
+          )}
+        </div>
+      </div>
+      {isOpen && (
+        <ul className="mt-2 max-h-56 overflow-y-auto divide-y divide-bunker-800">
+          {commits.map(commit => {
+            const isCompared = comparedShas?.includes(commit.sha);
+            return (
+              <li key={commit.sha} className={`flex items-center gap-3 py-1.5 px-1 text-sm ${commit.sha === checkedOutSha ? 'bg-amber-500/10' : ''}`}>
+                <input
+                  type="checkbox"
+                  checked={selectedShas.includes(commit.sha)}
+                  onChange={() => toggleSelected(commit.sha)}
+                  className="form-checkbox h-4 w-4 bg-bunker-900 border-bunker-600 rounded text-sky-500 focus:ring-sky-500 flex-shrink-0"
+                  aria-label={`Select ${commit.sha.slice(0, 7)} for comparison`}
+                />
+                <a href={commit.url} target="_blank" rel="noopener noreferrer" className={`font-mono text-xs hover:underline ${isCompared ? 'text-sky-300' : 'text-bunker-400'}`}>
+                  {commit.sha.slice(0, 7)}
+                </a>
+                <span className="truncate flex-grow text-bunker-200" title={commit.message}>{commit.message.split('\n')[0]}</span>
+                <span className="flex-shrink-0 text-xs text-bunker-400">{commit.authorName}, {formatRelativeTime(commit.authorDate)}</span>
+                {commit.sha === headSha && !checkedOutSha ? (
+                  <span className="flex-shrink-0 text-xs text-green-400 w-16 text-right">current</span>
+                ) : (
+                  <button
+                    onClick={() => commit.sha === headSha ? onReturnToHead() : onCheckout(commit)}
+                    disabled={isLoading || commit.sha === checkedOutSha}
+                    className="flex-shrink-0 w-16 text-xs px-2 py-0.5 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {commit.sha === checkedOutSha ? 'viewing' : 'Checkout'}
+                  </button>
+                )}
+              </li>
+            );
+          })}
+          {commits.length === 0 && !isLoading && <li className="py-2 text-sm text-bunker-500">No commits found.</li>}
+          {(hasMore || isLoading) && (
+            <li className="py-2 text-center">
+              {isLoading
+                ? <span className="text-sm text-sky-400 inline-flex items-center gap-2"><LoaderIcon /> Loading commits...</span>
+                : <button onClick={onLoadMore} className="text-xs text-sky-400 hover:underline">Load older commits</button>}
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default CommitHistoryPanel;
@@ -0,0 +1,61 @@
+import React, { useState } from 'react';
+import { ContextBudget } from '../types';
+import { formatTokenCount } from '../utils/format';
+
+interface ContextBudgetIndicatorProps {
+  budget: ContextBudget;
+  modelLabel: string;
+}
+
+const FileList: React.FC<{ title: string, fileNames: string[] }> = ({ title, fileNames }) => {
+  if (fileNames.length === 0) return null;
+  return (
+    <div>
+      <p className="text-xs text-bunker-400 mb-1">{title}</p>
+      <ul className="space-y-0.5">
+        {fileNames.map(name => <li key={name} className="font-mono text-xs text-bunker-200 truncate" title={name}>{name}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+/**
+ * Shows the estimated prompt size against the model's limit, and which context files are cut to fit.
+ */
+const ContextBudgetIndicator: React.FC<ContextBudgetIndicatorProps> = ({ budget, modelLabel }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const isOverLimit = budget.estimatedTokens > budget.tokenLimit;
+  const trimmedCount = budget.truncated.length + budget.summarized.length + budget.excluded.length;
+
+  const colorClassName = isOverLimit ? 'text-red-400' : trimmedCount > 0 ? 'text-amber-400' : 'text-bunker-400';
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`text-xs hover:underline ${colorClassName}`}
+        aria-expanded={isOpen}
+      >
+        ~{formatTokenCount(budget.estimatedTokens)} / {formatTokenCount(budget.tokenLimit)} tokens{trimmedCount > 0 && ` · ${trimmedCount} trimmed`}
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 z-20 w-80 p-3 space-y-2 bg-bunker-900 border border-bunker-700 rounded-md shadow-xl">
+          <p className="text-xs text-bunker-300">
+            The prompt is estimated at {formatTokenCount(budget.estimatedTokens)} tokens; {modelLabel} accepts about {formatTokenCount(budget.tokenLimit)} with room left for its response.
+          </p>
+          {isOverLimit && (
+            <p className="text-xs text-red-400">The files to modify alone don't fit. Select fewer files or choose a model with a larger context window.</p>
+          )}
+          {trimmedCount === 0 && !isOverLimit && <p className="text-xs text-bunker-400">All loaded files are sent in full.</p>}
+          <div className="max-h-60 overflow-y-auto space-y-2">
+            <FileList title="Truncated to their beginning" fileNames={budget.truncated} />
+            <FileList title="Sent as an outline of declarations" fileNames={budget.summarized} />
+            <FileList title="Listed by path only" fileNames={budget.excluded} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ContextBudgetIndicator;
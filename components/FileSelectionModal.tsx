@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { FileSelection, UploadedFile } from '../types';
+import { estimateFileTokens } from '../utils/tokens';
+import { formatTokenCount } from '../utils/format';
+import { isEditableText } from '../utils/blob';
+import ActionButton from './ActionButton';
+import { LightbulbIcon } from './Icons';
+
+type FileRole = 'edit' | 'read' | 'skip';
+
+interface FileSelectionModalProps {
+  files: UploadedFile[];
+  suggestion: FileSelection;
+  onConfirm: (selection: FileSelection) => void;
+  onCancel: () => void;
+}
+
+const ROLE_LABELS: Record<FileRole, string> = { edit: 'Edit', read: 'Read', skip: 'Skip' };
+
+/**
+ * Shows the files the model proposed for a change, so the user can confirm or adjust them before planning.
+ */
+const FileSelectionModal: React.FC<FileSelectionModalProps> = ({ files, suggestion, onConfirm, onCancel }) => {
+  const [roles, setRoles] = useState<Map<string, FileRole>>(() => new Map([
+    ...suggestion.edit.map(name => [name, 'edit'] as const),
+    ...suggestion.read.map(name => [name, 'read'] as const),
+  ]));
+  const [fileToAdd, setFileToAdd] = useState('');
+
+  const fileMap = new Map(files.map(f => [f.name, f]));
+  const addableNames = files.filter(f => isEditableText(f) && !roles.has(f.name)).map(f => f.name);
+  const namesWithRole = (role: FileRole) => [...roles].filter(([, r]) => r === role).map(([name]) => name);
+
+  const setRole = (name: string, role: FileRole) => setRoles(current => new Map(current).set(name, role));
+
+  const handleAdd = () => {
+    if (!addableNames.includes(fileToAdd)) return;
+    setRole(fileToAdd, 'edit');
+    setFileToAdd('');
+  };
+
+  const editCount = namesWithRole('edit').length;
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-bunker-900 w-full max-w-2xl rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700 max-h-full">
+        <header className="flex-shrink-0 p-4 border-b border-bunker-700">
+          <h2 className="text-lg font-semibold text-sky-400">Files for This Change</h2>
+          <p className="text-sm text-bunker-400">Check the proposed files before the plan is made. Files to read are sent in full as context.</p>
+        </header>
+
+        <div className="p-4 space-y-3 overflow-y-auto">
+          {suggestion.notes && (
+            <p className="text-sm text-sky-200 bg-sky-900/40 border border-sky-800 rounded-md px-3 py-2 flex gap-2">
+              <LightbulbIcon className="flex-shrink-0 h-4 w-4 mt-0.5" /> {suggestion.notes}
+            </p>
+          )}
+          <ul className="divide-y divide-bunker-800 border border-bunker-800 rounded-md">
+            {[...roles].map(([name, role]) => {
+              const file = fileMap.get(name);
+              return (
+                <li key={name} className="flex items-center gap-2 px-2 py-1.5 text-sm">
+                  <span className={`truncate flex-grow font-mono text-xs ${role === 'skip' ? 'text-bunker-500 line-through' : 'text-bunker-200'}`} title={name}>{name}</span>
+                  {file && <span className="flex-shrink-0 text-xs text-bunker-500">~{formatTokenCount(estimateFileTokens(file))}</span>}
+                  <div className="flex-shrink-0 flex rounded-md overflow-hidden border border-bunker-700" role="group" aria-label={`Role of ${name}`}>
+                    {(Object.keys(ROLE_LABELS) as FileRole[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => setRole(name, option)}
+                        aria-pressed={role === option}
+                        className={`px-2 py-0.5 text-xs ${role === option ? 'bg-sky-700 text-white' : 'bg-bunker-800 text-bunker-300 hover:bg-bunker-700'}`}
+                      >
+                        {ROLE_LABELS[option]}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+            {roles.size === 0 && <li className="px-2 py-1.5 text-sm text-bunker-500">No files were proposed. Add the files to edit below.</li>}
+          </ul>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              list="file-selection-candidates"
+              value={fileToAdd}
+              onChange={(e) => setFileToAdd(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleAdd(); }}
+              placeholder="Add another file..."
+              className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label="File to add"
+            />
+            <datalist id="file-selection-candidates">
+              {addableNames.map(name => <option key={name} value={name} />)}
+            </datalist>
+            <button
+              onClick={handleAdd}
+              disabled={!addableNames.includes(fileToAdd)}
+              className="px-3 text-sm rounded-md bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        <footer className="flex-shrink-0 flex items-center justify-end gap-3 p-4 border-t border-bunker-700">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 bg-bunker-700 text-white rounded-md hover:bg-bunker-600 transition-colors focus:outline-none focus:ring-2 focus:ring-sky-500"
+          >
+            Cancel
+          </button>
+          <ActionButton onClick={() => onConfirm({ edit: namesWithRole('edit'), read: namesWithRole('read') })} disabled={editCount === 0}>
+            Plan Changes to {editCount} {editCount === 1 ? 'File' : 'Files'}
+          </ActionButton>
+        </footer>
+      </div>
+    </div>
+  );
+};
+
+export default FileSelectionModal;
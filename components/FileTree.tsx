@@ -1,8 +1,10 @@
 import React, { useState } from 'react';
 import { buildFileTree, FileTree as FileTreeType, TreeNode } from '../utils/fileTree';
 import { UploadedFile } from '../types';
-import { ChevronRightIcon, FileCodeIcon, FileImageIcon, FileTextIcon, FileVideoIcon, FolderIcon, FolderOpenIcon, Trash2Icon } from './Icons';
+import { ChevronRightIcon, FileCodeIcon, FileImageIcon, FileTextIcon, FileVideoIcon, FolderGitIcon, FolderIcon, FolderOpenIcon, Trash2Icon } from './Icons';
 import IconButton from './IconButton';
+import { estimateFileTokens } from '../utils/tokens';
+import { formatTokenCount } from '../utils/format';
 
 const getFileIcon = (fileType: string) => {
     if (fileType.startsWith('image/')) return <FileImageIcon className="text-sky-400" />;
@@ -84,7 +86,10 @@ const TreeEntry: React.FC<TreeEntryProps> = ({ node, level, activeFileName, sele
     );
   }
 
-  // It's a file
+  // It's a file. Submodules and Git LFS files are shown but can't be picked for modification.
+  const file = node.file!;
+  const isReadOnlyEntry = !!file.isSubmodule || !!file.lfsPointer;
+  const tokens = estimateFileTokens(file);
   return (
     <li className="text-sm">
        <div
@@ -98,10 +103,18 @@ const TreeEntry: React.FC<TreeEntryProps> = ({ node, level, activeFileName, sele
                 checked={selectedFileNames.includes(node.path)}
                 onChange={() => handleFileSelectToggle(node.path)}
                 onClick={(e) => e.stopPropagation()}
-                disabled={isModified}
+                disabled={isModified || isReadOnlyEntry}
             />
-            <span className="flex-shrink-0">{getFileIcon(node.file!.type)}</span>
-            <span className="truncate flex-grow" title={node.path}>{node.name}</span>
+            <span className="flex-shrink-0">{file.isSubmodule ? <FolderGitIcon className="text-purple-400" /> : getFileIcon(file.type)}</span>
+            <span className={`truncate flex-grow ${file.isLoaded === false || isReadOnlyEntry ? 'text-bunker-400' : ''}`} title={node.path}>{node.name}</span>
+            {isReadOnlyEntry && (
+                <span className="flex-shrink-0 text-[10px] uppercase px-1 rounded bg-bunker-700 text-bunker-300">{file.isSubmodule ? 'submodule' : 'LFS'}</span>
+            )}
+            {tokens > 0 && (
+                <span className="flex-shrink-0 text-[10px] text-bunker-500 font-mono" title={`About ${tokens.toLocaleString()} tokens${file.isLoaded === false ? ', estimated from the file size' : ''}`}>
+                    {file.isLoaded === false && '~'}{formatTokenCount(tokens)}
+                </span>
+            )}
             {!isModified && !isGithubConnected && (
                 <IconButton ariaLabel={`Remove ${node.name}`} onClick={handleClearFile} className="ml-auto flex-shrink-0 opacity-0 group-hover:opacity-100 focus:opacity-100">
                     <Trash2Icon className="h-3 w-3"/>
@@ -1,37 +1,203 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ActionButton from './ActionButton';
 import { GithubIcon, LoaderIcon } from './Icons';
-import { fetchUserRepos } from '../services/githubService';
+import { GIT_PROVIDERS, getGitProvider } from '../services/gitProvider';
+import { BranchInfo, CommitOptions, FetchProgress, RateLimitInfo, RepoSummary, GitAccount, GitConnection, GitProviderId, TokenInfo, DeviceLoginPrompt } from '../types';
+import RepoCombobox from './RepoCombobox';
+import TokenVaultControls from './TokenVaultControls';
+import { RememberedToken, getSessionToken, setSessionToken } from '../utils/tokenVault';
+import { formatRelativeTime } from '../utils/format';
 
 interface GithubConnectProps {
-  onFetch: (token: string, username: string, repo: string) => void;
+  onFetch: (connection: GitConnection, username: string, repo: string, branch: string) => void;
   isLoading: boolean;
   error: string | null;
   success: string | null;
   isFetched: boolean;
   repoName: string;
+  branchName: string;
+  defaultBranch: string;
+  progress: FetchProgress | null;
+  rateLimit: RateLimitInfo | null;
+  commitOptions: CommitOptions;
+  onCommitOptionsChange: (options: CommitOptions) => void;
   onDisconnect: () => void;
 }
 
-const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error, success, isFetched, repoName, onDisconnect }) => {
+const formatProgress = (progress: FetchProgress) =>
+  `${progress.label}: ${progress.completed}${progress.total !== undefined ? `/${progress.total}` : ''}`;
+
+const RateLimitBadge = ({ rateLimit }: { rateLimit: RateLimitInfo | null }) => {
+  if (!rateLimit) return null;
+  const isLow = rateLimit.remaining < rateLimit.limit * 0.1;
+  return (
+    <span className={`text-xs ${isLow ? 'text-amber-400' : 'text-bunker-400'}`} title={`Resets at ${new Date(rateLimit.resetAt).toLocaleTimeString()}`}>
+      API quota: {rateLimit.remaining}/{rateLimit.limit}
+    </span>
+  );
+};
+
+// Tokens this close to expiring are flagged
+const EXPIRY_WARNING_MS = 7 * 24 * 60 * 60 * 1000;
+
+const TokenStatus = ({ info, requiredScopes }: { info: TokenInfo, requiredScopes: string[] }) => {
+  const missingScopes = info.scopes ? requiredScopes.filter(scope => !info.scopes!.includes(scope)) : [];
+  const msUntilExpiry = info.expiresAt ? new Date(info.expiresAt).getTime() - Date.now() : null;
+  return (
+    <p className="text-xs text-bunker-400">
+      Token of <span className="font-mono text-bunker-200">{info.login}</span>
+      {' · '}{info.scopes ? `scopes: ${info.scopes.join(', ') || 'none'}` : 'scopes not reported'}
+      {' · '}
+      {msUntilExpiry === null ? 'no expiry reported' : (
+        <span className={msUntilExpiry < EXPIRY_WARNING_MS ? 'text-amber-400' : ''}>
+          {msUntilExpiry < 0 ? 'expired' : 'expires'} {formatRelativeTime(info.expiresAt)}
+        </span>
+      )}
+      {missingScopes.length > 0 && <span className="text-amber-400"> · missing scope: {missingScopes.join(', ')}</span>}
+    </p>
+  );
+};
+
+const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error, success, isFetched, repoName, branchName, defaultBranch, progress, rateLimit, commitOptions, onCommitOptionsChange, onDisconnect }) => {
+  const [providerId, setProviderId] = useState<GitProviderId>('github');
+  const [host, setHost] = useState(getGitProvider('github').defaultHost);
   const [token, setToken] = useState('');
   const [username, setUsername] = useState('');
   const [repo, setRepo] = useState('');
+  const [branch, setBranch] = useState('');
 
-  const [repoList, setRepoList] = useState<string[]>([]);
+  const [repoList, setRepoList] = useState<RepoSummary[]>([]);
+  const [accounts, setAccounts] = useState<GitAccount[]>([]);
   const [isListingRepos, setIsListingRepos] = useState(false);
   const [listError, setListError] = useState<string | null>(null);
 
+  const [branchList, setBranchList] = useState<BranchInfo[]>([]);
+  const [isListingBranches, setIsListingBranches] = useState(false);
+
+  const [tokenInfo, setTokenInfo] = useState<TokenInfo | null>(null);
+  const [tokenError, setTokenError] = useState<string | null>(null);
+  const [deviceLogin, setDeviceLogin] = useState<DeviceLoginPrompt | null>(null);
+  const [isDeviceLoginStarting, setIsDeviceLoginStarting] = useState(false);
+  const [deviceLoginError, setDeviceLoginError] = useState<string | null>(null);
+  const deviceLoginAbort = useRef<AbortController | null>(null);
+
+  const provider = getGitProvider(providerId);
+  const buildConnection = (tokenToUse: string, hostToUse = host, id = providerId): GitConnection => ({
+    provider: id,
+    baseUrl: getGitProvider(id).resolveApiBase(hostToUse),
+    token: tokenToUse,
+  });
+
   useEffect(() => {
-    const savedToken = localStorage.getItem('github_pat');
+    const savedToken = getSessionToken();
     const savedUsername = localStorage.getItem('github_username');
+    const savedProvider = localStorage.getItem('git_provider') as GitProviderId | null;
+    const savedHost = localStorage.getItem('git_host');
+    const initialProvider = savedProvider && GIT_PROVIDERS.some(p => p.id === savedProvider) ? savedProvider : 'github';
+    const initialHost = savedHost || getGitProvider(initialProvider).defaultHost;
+    setProviderId(initialProvider);
+    setHost(initialHost);
     if (savedToken) setToken(savedToken);
     if (savedUsername) setUsername(savedUsername);
+    if (savedToken) checkToken(buildConnection(savedToken, initialHost, initialProvider));
+    // Stop polling for a device login when the panel goes away
+    return () => deviceLoginAbort.current?.abort();
   }, []);
 
+  const checkToken = (connection: GitConnection) => {
+    loadAccounts(connection);
+    inspectToken(connection);
+  };
+
+  const inspectToken = async (connection: GitConnection) => {
+    setTokenInfo(null);
+    setTokenError(null);
+    if (!connection.token) return;
+    try {
+        setTokenInfo(await getGitProvider(connection.provider).fetchTokenInfo(connection));
+    } catch (e) {
+        setTokenError(e instanceof Error ? e.message : 'Could not check the token.');
+    }
+  };
+
+  const loadAccounts = async (connection: GitConnection) => {
+    if (!connection.token) return;
+    try {
+        const fetchedAccounts = await getGitProvider(connection.provider).fetchAccounts(connection);
+        setAccounts(fetchedAccounts);
+        // Default to the token holder's own repositories
+        setUsername(current => current || fetchedAccounts[0].login);
+    } catch (e) {
+        // The owner can still be typed by hand; errors surface when listing repositories
+        console.warn("Could not list accounts:", e);
+        setAccounts([]);
+    }
+  };
+
+  const resetListing = () => {
+    setAccounts([]);
+    setRepoList([]);
+    setRepo('');
+    setBranchList([]);
+    setBranch('');
+    setListError(null);
+  };
+
+  const handleProviderChange = (value: GitProviderId) => {
+    const nextHost = getGitProvider(value).defaultHost;
+    setProviderId(value);
+    setHost(nextHost);
+    localStorage.setItem('git_provider', value);
+    localStorage.setItem('git_host', nextHost);
+    resetListing();
+    checkToken(buildConnection(token, nextHost, value));
+  };
+  const handleHostChange = (value: string) => {
+    setHost(value);
+    localStorage.setItem('git_host', value);
+    resetListing();
+  };
+
   const handleTokenChange = (value: string) => {
     setToken(value);
-    localStorage.setItem('github_pat', value);
+    setSessionToken(value);
+    setTokenInfo(null);
+    setTokenError(null);
+  };
+
+  const handleUnlockToken = (unlocked: string, remembered: RememberedToken) => {
+    // The token only works against the host it was saved for
+    setProviderId(remembered.provider);
+    setHost(remembered.host);
+    localStorage.setItem('git_provider', remembered.provider);
+    localStorage.setItem('git_host', remembered.host);
+    resetListing();
+    handleTokenChange(unlocked);
+    checkToken(buildConnection(unlocked, remembered.host, remembered.provider));
+  };
+
+  const handleDeviceLogin = async () => {
+    if (!provider.deviceLogin) return;
+    const controller = new AbortController();
+    deviceLoginAbort.current = controller;
+    setDeviceLoginError(null);
+    setIsDeviceLoginStarting(true);
+    try {
+        const prompt = await provider.deviceLogin.start(host);
+        setDeviceLogin(prompt);
+        setIsDeviceLoginStarting(false);
+        const accessToken = await provider.deviceLogin.poll(host, prompt, controller.signal);
+        handleTokenChange(accessToken);
+        checkToken(buildConnection(accessToken));
+    } catch (e) {
+        if (!controller.signal.aborted) {
+            setDeviceLoginError(e instanceof Error ? e.message : 'The login failed.');
+        }
+    } finally {
+        setDeviceLogin(null);
+        setIsDeviceLoginStarting(false);
+        deviceLoginAbort.current = null;
+    }
   };
   const handleUsernameChange = (value: string) => {
     setUsername(value);
@@ -43,9 +209,11 @@ const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error
     setListError(null);
     setRepoList([]);
     setRepo('');
+    setBranchList([]);
+    setBranch('');
     try {
-        const fetchedRepos = await fetchUserRepos(token, username);
-        setRepoList(fetchedRepos.map(r => r.name));
+        const fetchedRepos = await provider.fetchUserRepos(buildConnection(token), username);
+        setRepoList(fetchedRepos);
     } catch (e) {
         setListError(e instanceof Error ? e.message : 'An unknown error occurred.');
     } finally {
@@ -53,23 +221,94 @@ const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error
     }
   };
 
+  const handleRepoChange = async (value: string) => {
+    setRepo(value);
+    setBranchList([]);
+    setBranch('');
+    if (!value) return;
+
+    const selectedRepo = repoList.find(r => r.name === value);
+    setIsListingBranches(true);
+    setListError(null);
+    try {
+        const fetchedBranches = await provider.fetchRepoBranches(buildConnection(token), username, value);
+        setBranchList(fetchedBranches);
+        const initialBranch = fetchedBranches.find(b => b.name === selectedRepo?.defaultBranch) ?? fetchedBranches[0];
+        setBranch(initialBranch?.name ?? '');
+    } catch (e) {
+        setListError(e instanceof Error ? e.message : 'An unknown error occurred.');
+    } finally {
+        setIsListingBranches(false);
+    }
+  };
+
   const handleFetchClick = () => {
-    if (token && username && repo) {
-      onFetch(token, username, repo);
+    if (token && username && repo && branch) {
+      onFetch(buildConnection(token), username, repo, branch);
     }
   };
 
   if (isFetched) {
+    const targetBranch = commitOptions.createBranch ? commitOptions.newBranchName : branchName;
+    const canOpenPullRequest = commitOptions.createBranch || branchName !== defaultBranch;
     return (
-      <div className="flex items-center gap-4 bg-bunker-900 p-3 rounded-lg border border-bunker-800">
-        <GithubIcon className="text-green-300 w-6 h-6 flex-shrink-0" />
-        <div className="flex-grow">
-          <p className="font-semibold text-bunker-100">Connected to GitHub Repository</p>
-          <p className="text-sm text-bunker-300 font-mono">{repoName}</p>
+      <div className="bg-bunker-900 p-3 rounded-lg border border-bunker-800">
+        <div className="flex items-center gap-4">
+          <GithubIcon className="text-green-300 w-6 h-6 flex-shrink-0" />
+          <div className="flex-grow">
+            <p className="font-semibold text-bunker-100">Connected to {provider.label} Repository</p>
+            <p className="text-sm text-bunker-300 font-mono">{repoName} <span className="text-bunker-400">@</span> {branchName}</p>
+          </div>
+          <div className="flex flex-col items-end gap-0.5">
+            {progress && <span className="text-sm text-sky-400 flex items-center gap-2"><LoaderIcon /> {formatProgress(progress)}</span>}
+            <RateLimitBadge rateLimit={rateLimit} />
+          </div>
+          <ActionButton onClick={onDisconnect} className="bg-red-600 hover:bg-red-700">
+            Disconnect
+          </ActionButton>
+        </div>
+        <div className="mt-3 pt-3 border-t border-bunker-800 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm text-bunker-300">
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="commit-target"
+              checked={!commitOptions.createBranch}
+              onChange={() => onCommitOptionsChange({ ...commitOptions, createBranch: false, openPullRequest: branchName !== defaultBranch && commitOptions.openPullRequest })}
+            />
+            Commit directly to <span className="font-mono">{branchName}</span>
+          </label>
+          <label className="flex items-center gap-2">
+            <input
+              type="radio"
+              name="commit-target"
+              checked={commitOptions.createBranch}
+              onChange={() => onCommitOptionsChange({ ...commitOptions, createBranch: true })}
+            />
+            Create new branch
+          </label>
+          {commitOptions.createBranch && (
+            <input
+              type="text"
+              value={commitOptions.newBranchName}
+              onChange={(e) => onCommitOptionsChange({ ...commitOptions, newBranchName: e.target.value.trim() })}
+              placeholder="new-branch-name"
+              className="p-1.5 bg-bunker-800 border border-bunker-700 rounded-md font-mono text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label="New branch name"
+            />
+          )}
+          <label className={`flex items-center gap-2 ${canOpenPullRequest ? '' : 'opacity-50'}`}>
+            <input
+              type="checkbox"
+              checked={canOpenPullRequest && commitOptions.openPullRequest}
+              disabled={!canOpenPullRequest}
+              onChange={(e) => onCommitOptionsChange({ ...commitOptions, openPullRequest: e.target.checked })}
+            />
+            Open pull request
+            {canOpenPullRequest && targetBranch && (
+              <span className="text-bunker-400 font-mono text-xs">{targetBranch} → {commitOptions.createBranch ? branchName : defaultBranch}</span>
+            )}
+          </label>
         </div>
-        <ActionButton onClick={onDisconnect} className="bg-red-600 hover:bg-red-700">
-          Disconnect
-        </ActionButton>
       </div>
     );
   }
@@ -78,25 +317,51 @@ const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error
     <div className="bg-bunker-900 p-4 rounded-lg border border-bunker-800">
       <div className="flex items-center gap-3 mb-3">
         <GithubIcon className="w-6 h-6" />
-        <h2 className="text-lg font-semibold text-bunker-200">Connect to GitHub Repository</h2>
+        <h2 className="text-lg font-semibold text-bunker-200">Connect to {provider.label} Repository</h2>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+        <select
+          value={providerId}
+          onChange={(e) => handleProviderChange(e.target.value as GitProviderId)}
+          className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
+          aria-label="Git hosting provider"
+        >
+          {GIT_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+        </select>
+        <input
+          type="url"
+          value={host}
+          onChange={(e) => handleHostChange(e.target.value)}
+          onBlur={() => checkToken(buildConnection(token))}
+          placeholder={provider.defaultHost}
+          className="w-full md:col-span-2 p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
+          aria-label={`${provider.label} host URL`}
+        />
       </div>
       <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
         <input
           type="password"
           value={token}
           onChange={(e) => handleTokenChange(e.target.value)}
-          placeholder="GitHub Personal Access Token"
+          onBlur={() => checkToken(buildConnection(token))}
+          placeholder={`${provider.label} Personal Access Token`}
           className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
-          aria-label="GitHub Personal Access Token"
+          aria-label={`${provider.label} Personal Access Token`}
         />
         <input
           type="text"
           value={username}
           onChange={(e) => handleUsernameChange(e.target.value)}
           placeholder="Username / Org"
+          list="git-accounts"
           className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
-          aria-label="GitHub Username or Organization"
+          aria-label={`${provider.label} Username or Organization`}
         />
+        <datalist id="git-accounts">
+          {accounts.map(account => (
+            <option key={account.login} value={account.login}>{account.isOrganization ? 'Organization' : 'You'}</option>
+          ))}
+        </datalist>
         <ActionButton
             onClick={handleListRepos}
             disabled={isListingRepos || !token || !username}
@@ -106,22 +371,60 @@ const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error
         </ActionButton>
       </div>
 
+      <div className="mt-2 space-y-2">
+        {provider.deviceLogin && (
+          <div className="flex flex-wrap items-center gap-2 text-sm text-bunker-300">
+            {deviceLogin ? (
+              <>
+                <LoaderIcon />
+                <span>
+                  Enter <span className="font-mono text-base text-sky-300 select-all">{deviceLogin.userCode}</span> at{' '}
+                  <a href={deviceLogin.verificationUri} target="_blank" rel="noopener noreferrer" className="text-sky-400 hover:underline">{deviceLogin.verificationUri}</a>
+                </span>
+                <button onClick={() => deviceLoginAbort.current?.abort()} className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600">
+                  Cancel
+                </button>
+              </>
+            ) : (
+              <button
+                onClick={handleDeviceLogin}
+                disabled={isDeviceLoginStarting}
+                className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 flex items-center gap-1"
+              >
+                {isDeviceLoginStarting ? <LoaderIcon /> : <GithubIcon className="w-4 h-4" />} Sign in with {provider.label} instead
+              </button>
+            )}
+            {deviceLoginError && <span className="text-red-400 text-xs">{deviceLoginError}</span>}
+          </div>
+        )}
+        <TokenVaultControls token={token} providerId={providerId} host={host} onUnlock={handleUnlockToken} />
+        {tokenInfo && <TokenStatus info={tokenInfo} requiredScopes={provider.requiredScopes} />}
+        {tokenError && <p className="text-red-400 text-xs">{tokenError}</p>}
+      </div>
+
       {listError && <p className="text-red-400 mt-2 text-sm">{listError}</p>}
       
       {repoList.length > 0 && (
           <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mt-3">
-               <select
+               <RepoCombobox
+                  repos={repoList}
                   value={repo}
-                  onChange={(e) => setRepo(e.target.value)}
-                  className="md:col-span-2 w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500"
-                  aria-label="Select Repository"
+                  onChange={handleRepoChange}
+              />
+              <select
+                  value={branch}
+                  onChange={(e) => setBranch(e.target.value)}
+                  disabled={!repo || isListingBranches}
+                  className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+                  aria-label="Select Branch"
                 >
-                  <option value="">-- Select a Repository --</option>
-                  {repoList.map(r => <option key={r} value={r}>{r}</option>)}
+                  {isListingBranches && <option value="">Loading branches...</option>}
+                  {!isListingBranches && branchList.length === 0 && <option value="">-- Select a Branch --</option>}
+                  {branchList.map(b => <option key={b.name} value={b.name}>{b.name}{b.protected ? ' (protected)' : ''}</option>)}
               </select>
               <ActionButton
                   onClick={handleFetchClick}
-                  disabled={isLoading || !repo}
+                  disabled={isLoading || !repo || !branch}
                   isLoading={isLoading}
                   icon={<GithubIcon />}
                 >
@@ -132,10 +435,11 @@ const GithubConnect: React.FC<GithubConnectProps> = ({ onFetch, isLoading, error
       
       <div className="mt-4 flex items-center justify-between">
          <div className="text-xs text-bunker-400">
-              Your Personal Access Token is used only for this session and is not stored permanently. It needs 'repo' scope access.
+              {provider.tokenHelp} The token is kept for this browser tab only, unless you save it encrypted on this device.
            </div>
         <div className="text-sm h-5 text-right">
-           {isLoading && <p className="text-sky-400 flex items-center gap-2"><LoaderIcon /> Fetching repository content...</p>}
+           {isLoading && <p className="text-sky-400 flex items-center gap-2"><LoaderIcon /> {progress ? formatProgress(progress) : 'Fetching repository content...'}</p>}
+           {!isLoading && <RateLimitBadge rateLimit={rateLimit} />}
            {error && <p className="text-red-400">{error}</p>}
            {success && !isFetched && <p className="text-green-400">{success}</p>}
         </div>
@@ -99,6 +99,20 @@ export const HistoryIcon: React.FC<IconProps> = ({ className, ...props }) => (
     </svg>
 );
 
+export const SlidersIcon: React.FC<IconProps> = ({ className, ...props }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={['h-5 w-5', className].filter(Boolean).join(' ')} {...props}>
+        <line x1="4" x2="4" y1="21" y2="14"></line>
+        <line x1="4" x2="4" y1="10" y2="3"></line>
+        <line x1="12" x2="12" y1="21" y2="12"></line>
+        <line x1="12" x2="12" y1="8" y2="3"></line>
+        <line x1="20" x2="20" y1="21" y2="16"></line>
+        <line x1="20" x2="20" y1="12" y2="3"></line>
+        <line x1="2" x2="6" y1="14" y2="14"></line>
+        <line x1="10" x2="14" y1="8" y2="8"></line>
+        <line x1="18" x2="22" y1="16" y2="16"></line>
+    </svg>
+);
+
 export const LightbulbIcon: React.FC<IconProps> = ({ className, ...props }) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={['h-5 w-5', className].filter(Boolean).join(' ')} {...props}>
         <path d="M15 14c.2-1 .7-1.7 1.5-2.5C17.7 10.2 18 9.2 18 8a6 6 0 0 0-12 0c0 1.2.3 2.2 1.5 3.5.7.7 1.3 1.5 1.5 2.5"></path>
@@ -171,6 +185,14 @@ export const FolderOpenIcon: React.FC<IconProps> = ({ className, ...props }) =>
     </svg>
 );
 
+export const FolderGitIcon: React.FC<IconProps> = ({ className, ...props }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={['h-4 w-4', className].filter(Boolean).join(' ')} {...props}>
+        <circle cx="12" cy="13" r="2"></circle>
+        <path d="M4 20h16a2 2 0 0 0 2-2V8a2 2 0 0 0-2-2h-7.93a2 2 0 0 1-1.66-.9l-.82-1.2A2 2 0 0 0 7.93 3H4a2 2 0 0 0-2 2v13c0 1.1.9 2 2 2Z"></path>
+        <path d="M14 13h3"></path>
+        <path d="M7 13h3"></path>
+    </svg>
+);
 
 export const ChevronRightIcon: React.FC<IconProps> = ({ className, ...props }) => (
     <svg xmlns="http://www.w3.org/2000/svg" width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className={['h-4 w-4', className].filter(Boolean).join(' ')} {...props}>
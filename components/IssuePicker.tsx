@@ -0,0 +1,83 @@
+import React, { useState, useMemo } from 'react';
+import { IssueSummary } from '../types';
+import { formatRelativeTime } from '../utils/format';
+import { LoaderIcon } from './Icons';
+
+interface IssuePickerProps {
+  issues: IssueSummary[];
+  isLoading: boolean;
+  disabled?: boolean;
+  onOpen: () => void;
+  onSelect: (issue: IssueSummary) => void;
+}
+
+const IssuePicker: React.FC<IssuePickerProps> = ({ issues, isLoading, disabled, onOpen, onSelect }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase().replace(/^#/, '');
+    if (!needle) return issues;
+    return issues.filter(issue => issue.title.toLowerCase().includes(needle) || String(issue.number).startsWith(needle));
+  }, [issues, query]);
+
+  const handleToggle = () => {
+    // Refresh the list on every open, so newly filed issues show up
+    if (!isOpen) onOpen();
+    setIsOpen(!isOpen);
+    setQuery('');
+  };
+
+  const handleSelect = (issue: IssueSummary) => {
+    setIsOpen(false);
+    onSelect(issue);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={handleToggle}
+        disabled={disabled}
+        className="h-16 px-3 text-sm rounded-md bg-bunker-800 border border-bunker-700 text-bunker-200 hover:bg-bunker-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-expanded={isOpen}
+      >
+        From issue
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 left-0 z-20 w-96 bg-bunker-900 border border-bunker-700 rounded-md shadow-xl">
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}
+            placeholder="Search open issues by title or #number..."
+            className="w-full p-2 bg-bunker-800 border-b border-bunker-700 rounded-t-md focus:outline-none text-sm"
+            aria-label="Search issues"
+          />
+          <ul className="max-h-72 overflow-y-auto">
+            {isLoading && <li className="p-2 text-sm text-sky-400 flex items-center gap-2"><LoaderIcon /> Loading issues...</li>}
+            {!isLoading && matches.length === 0 && <li className="p-2 text-sm text-bunker-500">No matching open issues.</li>}
+            {matches.map(issue => (
+              <li
+                key={issue.number}
+                onClick={() => handleSelect(issue)}
+                className="px-3 py-2 cursor-pointer text-sm hover:bg-sky-800/50"
+              >
+                <div className="flex items-center gap-2">
+                  <span className="font-mono text-xs text-bunker-400">#{issue.number}</span>
+                  <span className="truncate text-bunker-100">{issue.title}</span>
+                </div>
+                <p className="text-xs text-bunker-400">
+                  {issue.author}, updated {formatRelativeTime(issue.updatedAt)}{issue.commentsCount > 0 ? ` · ${issue.commentsCount} comments` : ''}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IssuePicker;
@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { MergeConflict, UploadedFile } from '../types';
+import CodeEditor from './CodeEditor';
+import ActionButton from './ActionButton';
+import { hasConflictMarkers } from '../utils/merge';
+import { GithubIcon } from './Icons';
+
+interface MergeConflictModalProps {
+  branchName: string;
+  conflicts: MergeConflict[];
+  isCommitting: boolean;
+  onCommit: (resolved: MergeConflict[]) => void;
+  onCancel: () => void;
+}
+
+const VersionPane = ({ title, file }: { title: string, file: UploadedFile | null }) => (
+  <div className="flex flex-col min-h-0 border border-bunker-700 rounded-md overflow-hidden">
+    <h4 className="text-xs font-bold uppercase text-bunker-400 px-2 py-1 bg-bunker-800/50 border-b border-bunker-700">{title}</h4>
+    {file ? (
+      <CodeEditor value={file.content} readOnly={true} showLineNumbers={false} />
+    ) : (
+      <div className="flex-grow flex items-center justify-center text-bunker-500 text-sm p-4">Deleted</div>
+    )}
+  </div>
+);
+
+const MergeConflictModal: React.FC<MergeConflictModalProps> = ({ branchName, conflicts, isCommitting, onCommit, onCancel }) => {
+  const [resolved, setResolved] = useState<MergeConflict[]>(conflicts);
+  const [activePath, setActivePath] = useState<string>(conflicts[0]?.path ?? '');
+
+  const active = resolved.find(c => c.path === activePath);
+  const isUnresolved = (conflict: MergeConflict) => conflict.resolution !== null && hasConflictMarkers(conflict.resolution);
+  const unresolvedCount = resolved.filter(isUnresolved).length;
+
+  const updateResolution = (path: string, resolution: string | null) => {
+    setResolved(prev => prev.map(c => c.path === path ? { ...c, resolution } : c));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4">
+      <div className="bg-bunker-900 w-full h-full rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700">
+        <header className="flex-shrink-0 flex items-center justify-between p-4 border-b border-bunker-700">
+          <div>
+            <h2 className="text-lg font-semibold text-sky-400">Resolve Conflicts</h2>
+            <p className="text-sm text-bunker-400">
+              <span className="font-mono">{branchName}</span> changed on the remote since it was fetched. Review the files changed on both sides before committing.
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <button
+              onClick={onCancel}
+              disabled={isCommitting}
+              className="px-4 py-2 bg-bunker-700 text-white rounded-md hover:bg-bunker-600 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-sky-500"
+            >
+              Cancel
+            </button>
+            <ActionButton
+              onClick={() => onCommit(resolved)}
+              disabled={unresolvedCount > 0}
+              isLoading={isCommitting}
+              icon={<GithubIcon />}
+              className="bg-purple-600 hover:bg-purple-700"
+            >
+              {unresolvedCount > 0 ? `${unresolvedCount} unresolved` : 'Commit Merge'}
+            </ActionButton>
+          </div>
+        </header>
+
+        <div className="flex flex-grow min-h-0">
+          <aside className="w-1/4 max-w-xs bg-bunker-800/20 border-r border-bunker-700 p-2 overflow-y-auto">
+            <ul>
+              {resolved.map(conflict => (
+                <li
+                  key={conflict.path}
+                  onClick={() => setActivePath(conflict.path)}
+                  className={`flex items-center gap-2 p-2 rounded-md cursor-pointer text-sm ${activePath === conflict.path ? 'bg-sky-800/50 text-sky-200' : 'hover:bg-bunker-700/50 text-bunker-300'}`}
+                >
+                  <span className={`w-2 h-2 rounded-full flex-shrink-0 ${isUnresolved(conflict) ? 'bg-red-400' : 'bg-green-400'}`} />
+                  <span className="truncate" title={conflict.path}>{conflict.path}</span>
+                </li>
+              ))}
+            </ul>
+          </aside>
+
+          {active && (
+            <main className="flex-grow flex flex-col gap-3 p-3 min-h-0">
+              <div className="grid grid-cols-3 gap-3 h-1/2 min-h-0">
+                <VersionPane title="Base (as fetched)" file={active.base} />
+                <VersionPane title="Yours (pending changes)" file={active.ours} />
+                <VersionPane title="Remote (current head)" file={active.theirs} />
+              </div>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="text-bunker-400 mr-2">Result:</span>
+                <button className="px-2 py-1 rounded bg-bunker-700 hover:bg-bunker-600" onClick={() => updateResolution(active.path, active.ours?.content ?? null)}>Use yours</button>
+                <button className="px-2 py-1 rounded bg-bunker-700 hover:bg-bunker-600" onClick={() => updateResolution(active.path, active.theirs?.content ?? null)}>Use remote</button>
+                <button className="px-2 py-1 rounded bg-bunker-700 hover:bg-bunker-600" onClick={() => updateResolution(active.path, conflicts.find(c => c.path === active.path)?.resolution ?? null)}>Reset to auto-merge</button>
+                {active.resolution !== null && (
+                  <button className="px-2 py-1 rounded bg-bunker-700 hover:bg-bunker-600 text-red-300" onClick={() => updateResolution(active.path, null)}>Delete file</button>
+                )}
+              </div>
+              <div className="flex-grow flex flex-col min-h-0 border border-bunker-700 rounded-md overflow-hidden">
+                {active.resolution === null ? (
+                  <div className="flex-grow flex items-center justify-center text-bunker-500 text-sm">This file will be deleted.</div>
+                ) : (
+                  <CodeEditor
+                    value={active.resolution}
+                    onChange={(e) => updateResolution(active.path, e.target.value)}
+                    showLineNumbers={true}
+                  />
+                )}
+              </div>
+            </main>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MergeConflictModal;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { ConversationTurn } from '../types';
+import { Trash2Icon } from './Icons';
+
+interface PlanThreadProps {
+  thread: ConversationTurn[];
+  disabled?: boolean;
+  onDiscard: () => void;
+}
+
+/**
+ * Lists the instructions that shaped the pending plan. Follow-up instructions revise the plan instead of starting over.
+ */
+const PlanThread: React.FC<PlanThreadProps> = ({ thread, disabled, onDiscard }) => {
+  return (
+    <div className="flex-shrink-0 lg:w-1/3 bg-bunker-900 border border-bunker-800 rounded-md px-4 py-3 flex flex-col min-h-0">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="font-bold text-bunker-200 text-sm">Conversation</h3>
+        <button
+          onClick={onDiscard}
+          disabled={disabled}
+          className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 flex items-center gap-1"
+          title="Discard the pending plan and start over"
+        >
+          <Trash2Icon className="h-3 w-3" /> Discard plan
+        </button>
+      </div>
+      <ol className="space-y-2 max-h-32 overflow-y-auto text-sm">
+        {thread.map((turn, index) => (
+          <li key={index} className="flex gap-2">
+            <span className="flex-shrink-0 font-mono text-xs text-bunker-500 mt-0.5">{index + 1}.</span>
+            <div className="min-w-0">
+              <p className="text-bunker-100 break-words">{turn.instruction}</p>
+              {turn.notes && index < thread.length - 1 && <p className="text-xs text-bunker-400 break-words">{turn.notes}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+      <p className="text-xs text-bunker-500 mt-2">Send a follow-up below to revise this plan.</p>
+    </div>
+  );
+};
+
+export default PlanThread;
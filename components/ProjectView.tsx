@@ -1,10 +1,13 @@
 import React, { useRef } from 'react';
 import JSZip from 'jszip';
 import IconButton from './IconButton';
-import { UploadIcon, Trash2Icon, WandIcon } from './Icons';
+import { UploadIcon, Trash2Icon, WandIcon, LoaderIcon } from './Icons';
 import CodeEditor from './CodeEditor';
 import { UploadedFile } from '../types';
 import { FileTree } from './FileTree';
+import BinaryFilePreview from './BinaryFilePreview';
+import { bytesToUploadedFile, isEditableText } from '../utils/blob';
+import { describeTextFormat } from '../utils/format';
 
 interface ProjectViewProps {
   files: UploadedFile[];
@@ -16,13 +19,15 @@ interface ProjectViewProps {
   onFileContentChange: (fileName: string, newContent: string) => void;
   isModified?: boolean;
   isGithubConnected?: boolean;
+  onEditorSelectionChange?: (selectedText: string) => void;
 }
 
 const ProjectView: React.FC<ProjectViewProps> = ({
   files, selectedFileNames, activeFileName,
   onFilesUpdate, onSelectedFileNamesUpdate, onActiveFileNameUpdate, onFileContentChange,
   isModified = false,
-  isGithubConnected = false
+  isGithubConnected = false,
+  onEditorSelectionChange
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -31,29 +36,10 @@ const ProjectView: React.FC<ProjectViewProps> = ({
     if (!uploadedFiles) return;
 
     let newFiles: UploadedFile[] = [];
-    const supportedTextExtensions = ['.txt', '.js', '.jsx', '.ts', '.tsx', '.html', '.css', '.json', '.md', '.svg'];
-    const supportedImageTypes = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
-
-    const processFile = async (file: File): Promise<UploadedFile | null> => {
-        const isText = supportedTextExtensions.some(ext => file.name.toLowerCase().endsWith(ext)) || file.type.startsWith('text/');
-        const isImage = supportedImageTypes.includes(file.type);
-        
-        if (isText) {
-            return new Promise<UploadedFile>(resolve => {
-                const reader = new FileReader();
-                reader.onload = (e) => resolve({ name: file.name, content: e.target?.result as string, type: file.type || 'text/plain' });
-                reader.readAsText(file);
-            });
-        } else if (isImage) {
-            return new Promise<UploadedFile>(resolve => {
-                const reader = new FileReader();
-                reader.onload = (e) => resolve({ name: file.name, content: e.target?.result as string, type: file.type });
-                reader.readAsDataURL(file);
-            });
-        }
-        console.warn(`File type not supported, skipping: ${file.name}`);
-        return null;
-    }
+
+    // Text and binary files are told apart by their content, so any file type can be added
+    const processFile = async (file: File): Promise<UploadedFile | null> =>
+        bytesToUploadedFile(file.name, new Uint8Array(await file.arrayBuffer()));
 
     for (const file of Array.from(uploadedFiles)) {
         if (file.name.toLowerCase().endsWith('.zip')) {
@@ -115,17 +101,20 @@ const ProjectView: React.FC<ProjectViewProps> = ({
       }
   };
 
+  // Submodules and Git LFS files can't be modified, so they are never selected
+  const selectableFileNames = files.filter(f => !f.isSubmodule && !f.lfsPointer).map(f => f.name);
+
   const handleSelectAll = () => {
-    if (files.length === 0) return;
-    if (selectedFileNames.length === files.length) {
+    if (selectableFileNames.length === 0) return;
+    if (selectedFileNames.length === selectableFileNames.length) {
       onSelectedFileNamesUpdate([]);
     } else {
-      onSelectedFileNamesUpdate(files.map(f => f.name));
+      onSelectedFileNamesUpdate(selectableFileNames);
     }
   };
 
   const activeFile = files.find(f => f.name === activeFileName);
-  const isImage = activeFile?.type.startsWith('image/');
+  const activeTextFormat = activeFile ? describeTextFormat(activeFile) : null;
 
   return (
     <div className="flex flex-col h-full bg-bunker-900 rounded-lg border border-bunker-700 overflow-hidden shadow-lg">
@@ -139,9 +128,9 @@ const ProjectView: React.FC<ProjectViewProps> = ({
               disabled={files.length === 0 || isModified}
               className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              {files.length > 0 && selectedFileNames.length === files.length ? 'Deselect All' : 'Select All'}
+              {selectableFileNames.length > 0 && selectedFileNames.length === selectableFileNames.length ? 'Deselect All' : 'Select All'}
             </button>
-            <input type="file" multiple ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept=".js,.jsx,.ts,.tsx,.html,.css,.json,.md,.txt,.svg,.png,.jpg,.jpeg,.webp,.gif,.zip" />
+            <input type="file" multiple ref={fileInputRef} onChange={handleFileUpload} className="hidden" />
             <IconButton onClick={() => fileInputRef.current?.click()} ariaLabel="Upload files or zip archive" disabled={isModified || isGithubConnected}>
                 <UploadIcon />
             </IconButton>
@@ -175,17 +164,29 @@ const ProjectView: React.FC<ProjectViewProps> = ({
 
         <main className="flex-grow w-2/3 bg-bunker-900">
            {activeFile ? (
-                isImage ? (
-                    <div className="p-4 flex-grow overflow-auto bg-bunker-950/50 flex items-center justify-center h-full">
-                       <img src={activeFile.content} alt={activeFile.name} className="max-w-full max-h-full object-contain rounded-md" />
+                activeFile.isLoaded === false ? (
+                    <div className="w-full h-full flex items-center justify-center gap-2 text-sm text-bunker-400">
+                        <LoaderIcon /> Loading {activeFile.name}...
                     </div>
+                ) : !isEditableText(activeFile) ? (
+                    <BinaryFilePreview file={activeFile} />
                 ) : (
-                    <CodeEditor
-                        value={activeFile.content}
-                        readOnly={isModified || isGithubConnected}
-                        onChange={handleCodeEdit}
-                        showLineNumbers={true}
-                    />
+                    <div className="flex flex-col h-full">
+                        <div className="flex-grow min-h-0">
+                            <CodeEditor
+                                value={activeFile.content}
+                                readOnly={isModified || isGithubConnected}
+                                onChange={handleCodeEdit}
+                                showLineNumbers={true}
+                                onSelectionChange={onEditorSelectionChange}
+                            />
+                        </div>
+                        {activeTextFormat && (
+                            <div className="flex-shrink-0 px-3 py-1 border-t border-bunker-800 text-xs text-bunker-400 text-right" title="Changes are saved in this format">
+                                {activeTextFormat}
+                            </div>
+                        )}
+                    </div>
                 )
            ) : (
             <div className="w-full flex-grow p-4 overflow-auto font-mono text-sm text-bunker-500 flex items-center justify-center text-center">
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { PromptTemplate } from '../types';
+import { fillPromptTemplate, getTemplateVariables } from '../utils/promptTemplates';
+import { Trash2Icon } from './Icons';
+
+interface PromptTemplatePickerProps {
+  templates: PromptTemplate[];
+  activeFileName: string | null;
+  selection: string;
+  currentInstruction: string;
+  disabled?: boolean;
+  onApply: (instruction: string) => void;
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+}
+
+/**
+ * Lists saved instructions. {{file}} and {{selection}} in a template are filled in from the open file when it's used.
+ */
+const PromptTemplatePicker: React.FC<PromptTemplatePickerProps> = ({ templates, activeFileName, selection, currentInstruction, disabled, onApply, onTemplatesChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const getMissingVariable = (template: PromptTemplate): string | null => {
+    const variables = getTemplateVariables(template.body);
+    if (variables.includes('file') && !activeFileName) return 'Open a file to use this template';
+    if (variables.includes('selection') && !selection) return 'Select code in the open file to use this template';
+    return null;
+  };
+
+  const handleApply = (template: PromptTemplate) => {
+    setIsOpen(false);
+    onApply(fillPromptTemplate(template.body, { file: activeFileName ?? '', selection }));
+  };
+
+  const handleDelete = (template: PromptTemplate) => {
+    if (window.confirm(`Delete the template "${template.name}"?`)) {
+      onTemplatesChange(templates.filter(t => t.id !== template.id));
+    }
+  };
+
+  const handleSave = () => {
+    const name = newName.trim();
+    if (!name || !currentInstruction.trim()) return;
+    onTemplatesChange([...templates, { id: `${Date.now()}`, name, body: currentInstruction.trim() }]);
+    setNewName('');
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="bg-bunker-900 border border-bunker-700 rounded-md px-3 h-10 text-sm text-bunker-200 hover:bg-bunker-800 disabled:opacity-50 disabled:cursor-not-allowed"
+        aria-expanded={isOpen}
+        aria-label="Prompt templates"
+      >
+        Templates
+      </button>
+      {isOpen && (
+        <div className="absolute bottom-full mb-2 right-0 z-20 w-96 bg-bunker-900 border border-bunker-700 rounded-md shadow-xl">
+          <ul className="max-h-72 overflow-y-auto">
+            {templates.length === 0 && <li className="p-2 text-sm text-bunker-500">No saved templates.</li>}
+            {templates.map(template => {
+              const missingVariable = getMissingVariable(template);
+              return (
+                <li key={template.id} className="flex items-start gap-2 px-3 py-2 text-sm hover:bg-sky-800/50">
+                  <button
+                    onClick={() => handleApply(template)}
+                    disabled={!!missingVariable}
+                    title={missingVariable ?? undefined}
+                    className="flex-grow min-w-0 text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <span className="block truncate text-bunker-100">{template.name}</span>
+                    <span className="block truncate text-xs text-bunker-400">{template.body}</span>
+                  </button>
+                  <button onClick={() => handleDelete(template)} aria-label={`Delete template ${template.name}`} className="flex-shrink-0 text-bunker-500 hover:text-red-400 mt-0.5">
+                    <Trash2Icon className="h-3 w-3" />
+                  </button>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex gap-2 p-2 border-t border-bunker-700">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setIsOpen(false); }}
+              placeholder="Name for the current instructions..."
+              className="w-full p-1.5 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+              aria-label="Template name"
+            />
+            <button
+              onClick={handleSave}
+              disabled={!newName.trim() || !currentInstruction.trim()}
+              title={currentInstruction.trim() ? 'Save the current instructions as a template' : 'Write instructions to save them as a template'}
+              className="px-3 text-sm rounded-md bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+          <p className="px-2 pb-2 text-xs text-bunker-500">{'{{file}}'} is replaced by the open file, {'{{selection}}'} by the code selected in it.</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptTemplatePicker;
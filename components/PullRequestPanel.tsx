@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { PullRequestSummary } from '../types';
+import { formatRelativeTime } from '../utils/format';
+import { GithubIcon, LoaderIcon } from './Icons';
+
+interface PullRequestPanelProps {
+  pullRequests: PullRequestSummary[];
+  isLoading: boolean;
+  activePullRequest: PullRequestSummary | null; // The pull request whose head branch is loaded
+  onLoad: () => void;
+  onOpen: (pullRequest: PullRequestSummary) => void;
+  onShowDiff: () => void;
+  onImportComments: () => void;
+}
+
+const PullRequestPanel: React.FC<PullRequestPanelProps> = ({
+  pullRequests, isLoading, activePullRequest, onLoad, onOpen, onShowDiff, onImportComments
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const handleToggle = () => {
+    // Refresh the list every time it is expanded, since PRs come and go
+    if (!isOpen) onLoad();
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="flex-shrink-0 bg-bunker-900 p-3 rounded-lg border border-bunker-800">
+      <div className="flex items-center justify-between gap-3">
+        <button onClick={handleToggle} className="text-base font-semibold text-bunker-200 flex items-center gap-2" aria-expanded={isOpen}>
+          <GithubIcon className="w-5 h-5" /> Pull Requests
+        </button>
+        {activePullRequest && (
+          <div className="flex items-center gap-2 text-sm min-w-0">
+            <span className="truncate text-purple-300">
+              Reviewing <a href={activePullRequest.url} target="_blank" rel="noopener noreferrer" className="hover:underline">#{activePullRequest.number}</a> {activePullRequest.title}
+            </span>
+            <span className="flex-shrink-0 font-mono text-xs text-bunker-400">{activePullRequest.headBranch} → {activePullRequest.baseBranch}</span>
+            <button onClick={onShowDiff} disabled={isLoading} className="flex-shrink-0 text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50">
+              Show PR diff
+            </button>
+            <button onClick={onImportComments} disabled={isLoading} className="flex-shrink-0 text-xs px-2 py-1 rounded bg-sky-700 text-white hover:bg-sky-600 disabled:opacity-50">
+              Import review comments
+            </button>
+          </div>
+        )}
+      </div>
+      {isOpen && (
+        <ul className="mt-2 max-h-56 overflow-y-auto divide-y divide-bunker-800">
+          {pullRequests.map(pr => (
+            <li key={pr.number} className={`flex items-center gap-3 py-1.5 px-1 text-sm ${pr.number === activePullRequest?.number ? 'bg-purple-500/10' : ''}`}>
+              <a href={pr.url} target="_blank" rel="noopener noreferrer" className="font-mono text-xs text-bunker-400 hover:underline">#{pr.number}</a>
+              <span className="truncate flex-grow text-bunker-200" title={pr.title}>{pr.title}</span>
+              <span className="flex-shrink-0 font-mono text-xs text-bunker-400">{pr.headBranch} → {pr.baseBranch}</span>
+              <span className="flex-shrink-0 text-xs text-bunker-400">{pr.author}, {formatRelativeTime(pr.updatedAt)}</span>
+              <button
+                onClick={() => onOpen(pr)}
+                disabled={isLoading || pr.isFromFork}
+                title={pr.isFromFork ? 'The head branch of this pull request is in a fork and cannot be committed to.' : undefined}
+                className="flex-shrink-0 w-16 text-xs px-2 py-0.5 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {pr.isFromFork ? 'Fork' : 'Open'}
+              </button>
+            </li>
+          ))}
+          {isLoading && <li className="py-2 text-center text-sm text-sky-400"><span className="inline-flex items-center gap-2"><LoaderIcon /> Loading pull requests...</span></li>}
+          {!isLoading && pullRequests.length === 0 && <li className="py-2 text-sm text-bunker-500">No open pull requests.</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PullRequestPanel;
@@ -0,0 +1,112 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { RepoSummary } from '../types';
+import { formatRelativeTime } from '../utils/format';
+
+interface RepoComboboxProps {
+  repos: RepoSummary[];
+  value: string;
+  onChange: (repoName: string) => void;
+  disabled?: boolean;
+}
+
+const Badge = ({ children, className }: { children: React.ReactNode, className: string }) => (
+  <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 rounded ${className}`}>{children}</span>
+);
+
+const RepoCombobox: React.FC<RepoComboboxProps> = ({ repos, value, onChange, disabled }) => {
+  const [query, setQuery] = useState(value);
+  const [isOpen, setIsOpen] = useState(false);
+  const [highlightedIndex, setHighlightedIndex] = useState(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  useEffect(() => {
+    setQuery(value);
+  }, [value]);
+
+  const matches = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    // Show everything while the input still holds the current selection
+    if (!needle || needle === value.toLowerCase()) return repos;
+    return repos.filter(r => r.name.toLowerCase().includes(needle) || r.description?.toLowerCase().includes(needle));
+  }, [repos, query, value]);
+
+  useEffect(() => {
+    listRef.current?.children[highlightedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [highlightedIndex]);
+
+  const select = (repo: RepoSummary) => {
+    setQuery(repo.name);
+    setIsOpen(false);
+    onChange(repo.name);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setIsOpen(true);
+      setHighlightedIndex(i => Math.min(i + 1, matches.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlightedIndex(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && isOpen && matches[highlightedIndex]) {
+      e.preventDefault();
+      select(matches[highlightedIndex]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+      setQuery(value);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls="repo-combobox-list"
+        aria-label="Search repositories"
+        value={query}
+        disabled={disabled}
+        onChange={(e) => { setQuery(e.target.value); setIsOpen(true); setHighlightedIndex(0); }}
+        onFocus={() => setIsOpen(true)}
+        // Delay closing so a click on an option still registers
+        onBlur={() => setTimeout(() => { setIsOpen(false); setQuery(value); }, 150)}
+        onKeyDown={handleKeyDown}
+        placeholder={`Search ${repos.length} repositories...`}
+        className="w-full p-2 bg-bunker-800 border border-bunker-700 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:opacity-50"
+      />
+      {isOpen && (
+        <ul
+          id="repo-combobox-list"
+          ref={listRef}
+          role="listbox"
+          className="absolute z-20 mt-1 w-full max-h-72 overflow-y-auto bg-bunker-900 border border-bunker-700 rounded-md shadow-xl"
+        >
+          {matches.length === 0 && <li className="p-2 text-sm text-bunker-500">No matching repositories.</li>}
+          {matches.map((repo, index) => (
+            <li
+              key={repo.fullName}
+              role="option"
+              aria-selected={repo.name === value}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => select(repo)}
+              onMouseEnter={() => setHighlightedIndex(index)}
+              className={`px-3 py-2 cursor-pointer text-sm ${index === highlightedIndex ? 'bg-sky-800/50' : ''} ${repo.archived ? 'opacity-60' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium text-bunker-100 truncate">{repo.name}</span>
+                {repo.private && <Badge className="bg-amber-500/20 text-amber-300">Private</Badge>}
+                {repo.fork && <Badge className="bg-bunker-700 text-bunker-300">Fork</Badge>}
+                {repo.archived && <Badge className="bg-red-500/20 text-red-300">Archived</Badge>}
+                {repo.pushedAt && <span className="ml-auto flex-shrink-0 text-xs text-bunker-400">pushed {formatRelativeTime(repo.pushedAt)}</span>}
+              </div>
+              {repo.description && <p className="text-xs text-bunker-400 truncate">{repo.description}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default RepoCombobox;
@@ -1,39 +1,68 @@
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { LoaderIcon } from './Icons';
 
 interface StreamingJsonModalProps {
   isOpen: boolean;
   content: string;
+  title?: string;
+  operationCount?: number; // Operations parsed so far; they are previewed in the changes view
+  onCancel: (keepReceived: boolean) => void;
 }
 
-const StreamingJsonModal: React.FC<StreamingJsonModalProps> = ({ isOpen, content }) => {
+// Floats over the corner rather than covering the page, so the changes view can be watched as the plan arrives
+const StreamingJsonModal: React.FC<StreamingJsonModalProps> = ({ isOpen, content, title = 'Generating Modification Plan...', operationCount = 0, onCancel }) => {
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    contentRef.current?.scrollTo({ top: contentRef.current.scrollHeight });
+  }, [content]);
+
   if (!isOpen) {
     return null;
   }
 
   return (
-    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-50 p-4 transition-opacity duration-300">
-      <div 
-        className="bg-bunker-900 w-full max-w-2xl max-h-[80vh] rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700 animate-fade-in-up"
-        onClick={(e) => e.stopPropagation()}
-        style={{
-          animation: 'fade-in-up 0.3s ease-out forwards',
-        }}
-      >
-        <div className="flex-shrink-0 flex items-center justify-between p-4 border-b border-bunker-700">
-          <h2 className="text-lg font-semibold text-sky-400 flex items-center gap-3">
-            <LoaderIcon className="animate-spin" />
-            Generating Modification Plan...
+    <div
+      className="fixed bottom-24 right-4 z-50 bg-bunker-900 w-full max-w-md max-h-[50vh] rounded-lg shadow-xl flex flex-col overflow-hidden border border-bunker-700"
+      style={{
+        animation: 'fade-in-up 0.3s ease-out forwards',
+      }}
+    >
+      <div className="flex-shrink-0 p-3 border-b border-bunker-700">
+        <div className="flex items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold text-sky-400 flex items-center gap-2">
+            <LoaderIcon />
+            {title}
           </h2>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {operationCount > 0 && (
+              <button
+                onClick={() => onCancel(true)}
+                className="text-xs px-2 py-1 rounded bg-sky-800 text-sky-100 hover:bg-sky-700"
+                title="Stop generating and keep the changes received in full"
+              >
+                Stop & keep {operationCount}
+              </button>
+            )}
+            <button
+              onClick={() => onCancel(false)}
+              className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600"
+            >
+              Cancel
+            </button>
+          </div>
         </div>
-        <div className="flex-grow p-4 overflow-auto bg-bunker-950/50">
-          <pre className="font-mono text-sm text-bunker-200 whitespace-pre-wrap break-words">
-            <code>
-              {content}
-              <span className="inline-block w-2 h-4 bg-sky-400 animate-pulse ml-1" />
-            </code>
-          </pre>
-        </div>
+        <p className="text-xs text-bunker-400 mt-1">
+          {operationCount > 0 ? `${operationCount} ${operationCount === 1 ? 'change' : 'changes'} received, shown in the changes view.` : 'Changes appear in the changes view as they arrive.'}
+        </p>
+      </div>
+      <div ref={contentRef} className="flex-grow p-3 overflow-auto bg-bunker-950/50">
+        <pre className="font-mono text-xs text-bunker-200 whitespace-pre-wrap break-words">
+          <code>
+            {content}
+            <span className="inline-block w-2 h-4 bg-sky-400 animate-pulse ml-1" />
+          </code>
+        </pre>
       </div>
       <style>
         {`
@@ -47,9 +76,6 @@ const StreamingJsonModal: React.FC<StreamingJsonModalProps> = ({ isOpen, content
             transform: translateY(0);
           }
         }
-        .animate-fade-in-up {
-          animation: fade-in-up 0.3s ease-out forwards;
-        }
         `}
       </style>
     </div>
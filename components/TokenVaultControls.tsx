@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { GitProviderId } from '../types';
+import { RememberedToken, forgetRememberedToken, getRememberedToken, rememberToken, unlockRememberedToken } from '../utils/tokenVault';
+import { LoaderIcon } from './Icons';
+
+interface TokenVaultControlsProps {
+  token: string;
+  providerId: GitProviderId;
+  host: string;
+  onUnlock: (token: string, remembered: RememberedToken) => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const TokenVaultControls: React.FC<TokenVaultControlsProps> = ({ token, providerId, host, onUnlock }) => {
+  const [remembered, setRemembered] = useState(getRememberedToken);
+  const [isRememberChecked, setIsRememberChecked] = useState(false);
+  const [passphrase, setPassphrase] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUnlock = async () => {
+    if (!remembered || !passphrase) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      const unlocked = await unlockRememberedToken(passphrase);
+      setPassphrase('');
+      onUnlock(unlocked, remembered);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not unlock the token.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRemember = async () => {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) return;
+    setIsBusy(true);
+    setError(null);
+    try {
+      await rememberToken(token, passphrase, providerId, host);
+      setRemembered(getRememberedToken());
+      setPassphrase('');
+      setIsRememberChecked(false);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not save the token.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleForget = () => {
+    forgetRememberedToken();
+    setRemembered(null);
+    setPassphrase('');
+    setError(null);
+  };
+
+  const passphraseInput = (onEnter: () => void, placeholder: string) => (
+    <input
+      type="password"
+      value={passphrase}
+      onChange={(e) => setPassphrase(e.target.value)}
+      onKeyDown={(e) => { if (e.key === 'Enter') onEnter(); }}
+      placeholder={placeholder}
+      className="p-1.5 bg-bunker-800 border border-bunker-700 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+      aria-label="Passphrase"
+    />
+  );
+
+  const forgetButton = (
+    <button onClick={handleForget} disabled={isBusy} className="text-xs px-2 py-1 rounded bg-bunker-700 text-bunker-200 hover:bg-bunker-600 disabled:opacity-50">
+      Forget saved token
+    </button>
+  );
+
+  if (remembered && !token) {
+    return (
+      <div className="flex flex-wrap items-center gap-2 text-sm text-bunker-300">
+        <span>A token for <span className="font-mono">{remembered.host}</span> is saved on this device.</span>
+        {passphraseInput(handleUnlock, 'Passphrase to unlock it')}
+        <button onClick={handleUnlock} disabled={isBusy || !passphrase} className="text-xs px-2 py-1 rounded bg-sky-700 text-white hover:bg-sky-600 disabled:opacity-50 flex items-center gap-1">
+          {isBusy && <LoaderIcon />} Unlock
+        </button>
+        {forgetButton}
+        {error && <span className="text-red-400 text-xs">{error}</span>}
+      </div>
+    );
+  }
+
+  if (!token) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-bunker-300">
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={isRememberChecked} onChange={(e) => setIsRememberChecked(e.target.checked)} />
+        Remember this token on this device, encrypted with a passphrase
+      </label>
+      {isRememberChecked && (
+        <>
+          {passphraseInput(handleRemember, `Passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`)}
+          <button
+            onClick={handleRemember}
+            disabled={isBusy || passphrase.length < MIN_PASSPHRASE_LENGTH}
+            className="text-xs px-2 py-1 rounded bg-sky-700 text-white hover:bg-sky-600 disabled:opacity-50 flex items-center gap-1"
+          >
+            {isBusy && <LoaderIcon />} {remembered ? 'Replace saved token' : 'Save encrypted'}
+          </button>
+        </>
+      )}
+      {remembered && !isRememberChecked && (
+        <>
+          <span className="text-bunker-400">A token for <span className="font-mono">{remembered.host}</span> is saved, encrypted.</span>
+          {forgetButton}
+        </>
+      )}
+      {error && <span className="text-red-400 text-xs">{error}</span>}
+    </div>
+  );
+};
+
+export default TokenVaultControls;
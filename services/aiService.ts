@@ -0,0 +1,621 @@
+import { ApplyTally, ContextBudget, EditFormat, FailedOperation, FileSelection, InFileOperation, LlmConnection, ModelOption, ModificationPlan, PlanRefinement, UploadedFile } from "../types";
+import { applyChanges, getChangedFiles } from "../utils/codeModifier";
+import { createUnifiedDiff } from "../utils/diff";
+import { isEditableText } from "../utils/blob";
+import { estimateFileTokens, estimateTokens, getPromptTokenLimit } from "../utils/tokens";
+import { formatBytes, formatTokenCount } from "../utils/format";
+import { FILE_SELECTION_SCHEMA, MODIFICATION_PLAN_SCHEMA, parseSchemaResponse, REANCHOR_SCHEMA, validateSchemaValue } from "../utils/planSchema";
+import { getProjectInstructions, isProjectInstructionsFile, PROJECT_INSTRUCTIONS_FILE } from "../utils/projectInstructions";
+import { getLlmProvider } from "./llmProvider";
+
+// A context file that doesn't fit is cut down to at least this many tokens; below that, an outline says more
+const MIN_TRUNCATED_TOKENS = 500;
+// Allowance for the markers around a truncated file
+const TRUNCATION_MARKER_TOKENS = 40;
+const MAX_OUTLINE_LINES = 200;
+// Files up to this size are rewritten whole when the edit format is chosen automatically; larger ones get diffs
+const MAX_REWRITE_TOKENS = 2_000;
+const MAX_OUTLINE_LINE_LENGTH = 200;
+
+// Lines that declare or import something, across the common languages; enough to sketch a file's shape
+const DECLARATION_PATTERN = /^\s*(export|import|from|(async\s+)?function|(abstract\s+)?class|interface|type|enum|struct|trait|impl|def|fn|pub|func|module|namespace|public|private|protected|static)\b/;
+
+const toFileSection = (file: UploadedFile): string =>
+  `--- FILE START: ${file.name} ---\n${file.content}\n--- FILE END: ${file.name} ---`;
+
+const toTruncatedSection = (file: UploadedFile, maxTokens: number): string => {
+  const lines = file.content.split('\n');
+  const kept: string[] = [];
+  let tokens = TRUNCATION_MARKER_TOKENS;
+  for (const line of lines) {
+    tokens += estimateTokens(`${line}\n`);
+    if (tokens > maxTokens) break;
+    kept.push(line);
+  }
+  return `--- FILE START: ${file.name} (TRUNCATED: first ${kept.length} of ${lines.length} lines) ---\n${kept.join('\n')}\n--- FILE TRUNCATED: ${file.name} ---`;
+};
+
+const toOutlineSection = (file: UploadedFile): string | null => {
+  const declarations = file.content.split('\n')
+    .filter(line => DECLARATION_PATTERN.test(line))
+    .slice(0, MAX_OUTLINE_LINES)
+    .map(line => line.trimEnd().slice(0, MAX_OUTLINE_LINE_LENGTH));
+  if (declarations.length === 0) return null;
+  return `--- FILE OUTLINE: ${file.name} (declarations only, bodies omitted) ---\n${declarations.join('\n')}\n--- OUTLINE END: ${file.name} ---`;
+};
+
+const dirname = (path: string) => path.slice(0, path.lastIndexOf('/') + 1);
+
+/**
+ * Decides how each file to modify is edited. Chosen automatically, small files are rewritten whole, which can't
+ * fail to apply, and larger ones are patched with unified diffs, which stay unambiguous in repetitive code.
+ */
+const resolveEditFormats = (files: UploadedFile[], selectedFileNames: string[], editFormat: EditFormat | 'auto'): Map<string, EditFormat> => {
+  const formats = new Map<string, EditFormat>();
+  for (const file of files) {
+    if (!selectedFileNames.includes(file.name) || !isEditableText(file)) continue;
+    formats.set(file.name, editFormat !== 'auto' ? editFormat : estimateFileTokens(file) <= MAX_REWRITE_TOKENS ? 'rewrite' : 'diff');
+  }
+  return formats;
+};
+
+interface PromptContext {
+  fileSections: string[];
+  listedFileNames: string[];
+  editFormats: Map<string, EditFormat>;
+  filesToLoad: string[]; // Context files that fit but haven't been downloaded yet
+  budget: ContextBudget;
+}
+
+/**
+ * Fits the project files into the model's context window. Files to modify are always sent in full. The other
+ * files are added whole while they fit, those next to the files to modify and the smallest first; the rest are
+ * truncated, reduced to an outline of their declarations, or only listed by path. Files that aren't downloaded
+ * yet are counted by size and only taken whole, as nothing else is known about them.
+ */
+const planPromptContext = (files: UploadedFile[], selectedFileNames: string[], userInstruction: string, model: ModelOption, editFormat: EditFormat | 'auto', refinement?: PlanRefinement): PromptContext => {
+  const tokenLimit = getPromptTokenLimit(model.contextWindow);
+  const editFormats = resolveEditFormats(files, selectedFileNames, editFormat);
+  const selected = new Set(selectedFileNames);
+  // Unloaded files to modify are counted by size: they are downloaded before the prompt is sent
+  // The instructions file is part of the prompt already
+  const contextFiles = files.filter(file => !selected.has(file.name) && isEditableText(file) && !isProjectInstructionsFile(file.name));
+  const unloadedFileNames = files.filter(file => !selected.has(file.name) && file.isLoaded === false && !contextFiles.includes(file)).map(file => file.name);
+
+  // The prompt without file contents, listing every context file by path as the worst case
+  let estimatedTokens = estimateTokens(createPrompt(files, selectedFileNames, userInstruction, [], [...unloadedFileNames, ...contextFiles.map(file => file.name)], editFormats, refinement));
+  const fileSections: string[] = [];
+  for (const file of files) {
+    if (!selected.has(file.name) || !isEditableText(file)) continue;
+    if (file.isLoaded === false) {
+      estimatedTokens += estimateFileTokens(file);
+    } else {
+      const section = toFileSection(file);
+      fileSections.push(section);
+      estimatedTokens += estimateTokens(section);
+    }
+  }
+
+  const selectedDirectories = new Set(selectedFileNames.map(dirname));
+  const candidates = contextFiles
+    .map(file => ({ file, tokens: estimateTokens(toFileSection(file)) + (file.isLoaded === false ? estimateFileTokens(file) : 0), isNearby: selectedDirectories.has(dirname(file.name)) }))
+    .sort((a, b) => Number(b.isNearby) - Number(a.isNearby) || a.tokens - b.tokens);
+
+  const budget: ContextBudget = { estimatedTokens, tokenLimit, truncated: [], summarized: [], excluded: [] };
+  const filesToLoad: string[] = [];
+  for (const { file, tokens } of candidates) {
+    const remaining = tokenLimit - budget.estimatedTokens;
+    let section: string | null = null;
+    if (file.isLoaded === false) {
+      if (tokens <= remaining) {
+        filesToLoad.push(file.name);
+        budget.estimatedTokens += tokens;
+      } else {
+        budget.excluded.push(file.name);
+      }
+      continue;
+    }
+    if (tokens <= remaining) {
+      section = toFileSection(file);
+    } else if (remaining >= Math.max(MIN_TRUNCATED_TOKENS, tokens / 2)) {
+      // Most of the file fits, so its beginning is worth more than an outline
+      section = toTruncatedSection(file, remaining);
+      budget.truncated.push(file.name);
+    } else {
+      const outline = toOutlineSection(file);
+      if (outline && estimateTokens(outline) <= remaining) {
+        section = outline;
+        budget.summarized.push(file.name);
+      } else if (remaining >= MIN_TRUNCATED_TOKENS) {
+        section = toTruncatedSection(file, remaining);
+        budget.truncated.push(file.name);
+      }
+    }
+    if (section) {
+      fileSections.push(section);
+      budget.estimatedTokens += estimateTokens(section);
+    } else {
+      budget.excluded.push(file.name);
+    }
+  }
+
+  return { fileSections, listedFileNames: [...unloadedFileNames, ...budget.excluded], editFormats, filesToLoad, budget };
+};
+
+/**
+ * Estimates the size of the modification prompt and which context files would be cut to fit the model.
+ */
+export const estimatePromptContext = (files: UploadedFile[], selectedFileNames: string[], userInstruction: string, model: ModelOption, editFormat: EditFormat | 'auto', refinement?: PlanRefinement): ContextBudget =>
+  planPromptContext(files, selectedFileNames, userInstruction, model, editFormat, refinement).budget;
+
+/**
+ * Picks the context files worth downloading before a modification prompt is made: those that fit in full,
+ * in the order they are added to the prompt. The rest are only listed by path.
+ */
+export const getContextFilesToLoad = (files: UploadedFile[], selectedFileNames: string[], userInstruction: string, model: ModelOption, editFormat: EditFormat | 'auto', refinement?: PlanRefinement): string[] =>
+  planPromptContext(files, selectedFileNames, userInstruction, model, editFormat, refinement).filesToLoad;
+
+// The pending plan, the conversation that led to it and the files it changed, which always go in full
+const createRefinementSection = (files: UploadedFile[], refinement: PlanRefinement): string => {
+  const { changed, removed } = getChangedFiles(files, refinement.modifiedFiles);
+  const { notes, ...operations } = refinement.plan;
+  const conversation = refinement.thread.map((turn, index) =>
+    `${index + 1}. INSTRUCTION: "${turn.instruction}"${turn.notes ? `\n   YOUR NOTES: ${turn.notes}` : ''}`).join('\n');
+  const changedSections = changed.filter(isEditableText).map(toFileSection).join('\n\n');
+
+  return `CONVERSATION SO FAR (earlier instructions, oldest first):
+${conversation}
+
+PENDING PLAN (your current plan, written against the project files below):
+${JSON.stringify(operations, null, 2)}
+
+FILES AS CHANGED BY THE PENDING PLAN (for reference only):
+${changedSections || 'None'}
+${removed.length > 0 ? `\nFILES DELETED BY THE PENDING PLAN:\n${removed.map(file => file.name).join('\n')}\n` : ''}`;
+};
+
+// The project's own conventions, from its instructions file
+const createProjectInstructionsSection = (files: UploadedFile[], usage = 'follow them unless the USER REQUEST says otherwise'): string => {
+  const instructions = getProjectInstructions(files);
+  return instructions ? `PROJECT INSTRUCTIONS (from ${PROJECT_INSTRUCTIONS_FILE}; ${usage}):\n${instructions}\n\n` : '';
+};
+
+type PlanKey = keyof Omit<ModificationPlan, 'notes'> | 'notes';
+
+const PLAN_FORMAT_SECTIONS: Record<PlanKey, string> = {
+  modify: `"modify": Array of objects for changing existing files.
+   {
+     "fileName": "The full name of the file to modify. MUST be from the MODIFIABLE list.",
+     "before": "A small, unique snippet of code immediately preceding the code to be changed.",
+     "codeToDelete": "The exact original code to be replaced.",
+     "newCode": "The new code to insert.",
+     "after": "A small, unique snippet of code immediately following the code to be changed."
+   }`,
+  delete: `"delete": Array of objects for removing content within a file.
+   {
+     "fileName": "The full name of the file to modify. MUST be from the MODIFIABLE list.",
+     "before": "A small, unique snippet of code immediately preceding the code to delete.",
+     "codeToDelete": "The exact code snippet to be removed.",
+     "after": "A small, unique snippet of code immediately following the code to delete."
+   }`,
+  patch: `"patch": Array of objects for changing existing files with a unified diff.
+   {
+     "fileName": "The full name of the file to modify. MUST be from the MODIFIABLE list.",
+     "diff": "The hunks of a unified diff of the file. Each hunk starts with a header like '@@ -12,7 +12,8 @@', followed by unchanged context lines starting with a space, removed lines starting with '-' and added lines starting with '+'. Leave out the '---' and '+++' file headers."
+   }`,
+  rewrite: `"rewrite": Array of objects for replacing the whole content of existing files.
+   {
+     "fileName": "The full name of the file to modify. MUST be from the MODIFIABLE list.",
+     "code": "The complete new content of the file, unchanged parts included."
+   }`,
+  newFiles: `"newFiles": Array of objects for creating new files.
+   {
+     "fileName": "The full, appropriate path for the new file (e.g., 'src/components/Button.tsx').",
+     "code": "The complete, valid code content for the new file."
+   }`,
+  deleteFiles: `"deleteFiles": An array of strings, where each string is the full name of a file to delete.
+   - Example: "deleteFiles": ["old-styles.css", "utils/legacy.js"]`,
+  notes: `"notes": A brief, user-friendly summary of the changes you are making. Explain the 'why'.`,
+};
+
+// The plan keys that carry changes to existing files in each edit format
+const EDIT_FORMAT_KEYS: Record<EditFormat, PlanKey[]> = {
+  snippet: ['modify', 'delete'],
+  diff: ['patch'],
+  rewrite: ['rewrite'],
+};
+
+const ALL_EDIT_FORMATS: EditFormat[] = ['snippet', 'diff', 'rewrite'];
+
+const EDIT_FORMAT_CONSTRAINTS: Record<EditFormat, string> = {
+  snippet: '- For "before" and "after" context, use a short but unique snippet (approx. 5-7 words or 30-50 characters) to ensure a precise match.',
+  diff: '- In a "patch" diff, copy context and removed lines exactly from the file, keep about 3 context lines around each change, and list hunks in file order.',
+  rewrite: '- A "rewrite" must contain the entire file. Never abbreviate unchanged code with comments like "// ... rest unchanged".',
+};
+
+const quoteKeys = (keys: PlanKey[]) => keys.map(key => `"${key}"`).join(' and ');
+
+const createPlanFormatInstructions = (formats: EditFormat[]): string => {
+  const keys: PlanKey[] = [...formats.flatMap(format => EDIT_FORMAT_KEYS[format]), 'newFiles', 'deleteFiles', 'notes'];
+  return `RESPONSE JSON FORMAT:
+The JSON object must have optional top-level keys: ${keys.slice(0, -1).map(key => `"${key}"`).join(', ')}, and "notes".
+
+${keys.map((key, index) => `${index + 1}. ${PLAN_FORMAT_SECTIONS[key]}`).join('\n\n')}`;
+};
+
+const createPrompt = (files: UploadedFile[], selectedFileNames: string[], userInstruction: string, fileSections: string[], listedFileNames: string[], editFormats: Map<string, EditFormat>, refinement?: PlanRefinement): string => {
+  // Binary files, Git LFS pointers and submodules are never sent: their content is meaningless to the model and can't be edited.
+  const readOnlyFiles = files.filter(file => file.isLoaded !== false && !isEditableText(file)).map(file =>
+    file.isSubmodule ? `${file.name} (submodule at commit ${file.sha?.slice(0, 7)})`
+    : file.lfsPointer ? `${file.name} (Git LFS object)`
+    : `${file.name} (binary)`);
+
+  const fileContents = fileSections.join('\n\n');
+  const modifiableFilesList = selectedFileNames.length > 0 ? selectedFileNames.join(', ') : 'None';
+  const formats = ALL_EDIT_FORMATS.filter(format => [...editFormats.values()].includes(format));
+  const editFormatList = [...editFormats].map(([fileName, format]) => `- ${fileName}: ${quoteKeys(EDIT_FORMAT_KEYS[format])}`).join('\n');
+
+  let instructionForModel: string;
+
+  if (files.length === 0) {
+    instructionForModel = `Your task is to generate one or more new files based on the USER REQUEST. Your response must be a JSON plan containing only a "newFiles" array.`;
+  } else {
+    instructionForModel = `Analyze the provided project files and the USER REQUEST to generate a JSON modification plan.
+You are ONLY permitted to propose changes for the files listed as MODIFIABLE. All other files are for read-only context.
+Your plan can include adding new files, modifying existing files, deleting content from files, or deleting entire files.`;
+  }
+  if (refinement) {
+    instructionForModel += `
+The USER REQUEST is a follow-up to your PENDING PLAN. Respond with a complete, revised plan that replaces the pending one: keep every pending change the follow-up doesn't ask to alter, and apply the follow-up on top.
+The revised plan is applied to the original project files, so every snippet, diff and rewrite must be written against the ALL PROJECT FILES section, not the FILES AS CHANGED BY THE PENDING PLAN.`;
+  }
+
+  return `
+You are an expert AI agent that generates a JSON object describing code modifications. Your entire output MUST be a single, raw JSON object, without any surrounding text, explanations, or markdown fences.
+
+${instructionForModel}
+
+${createProjectInstructionsSection(files)}${refinement ? `${createRefinementSection(files, refinement)}\n` : ''}USER REQUEST:
+"${userInstruction}"
+
+MODIFIABLE FILES:
+[${modifiableFilesList}]
+${editFormatList ? `\nEDIT FORMAT PER FILE (write changes to each existing file with only these keys):\n${editFormatList}\n` : ''}
+${files.length > 0 ? 'ALL PROJECT FILES (for context):' : ''}
+${fileContents}
+${listedFileNames.length > 0 ? `\nOTHER PROJECT FILES (content not included, listed for reference only):\n${listedFileNames.join('\n')}\n` : ''}${readOnlyFiles.length > 0 ? `\nREAD-ONLY FILES (content omitted, cannot be modified, replaced or deleted):\n${readOnlyFiles.join('\n')}\n` : ''}
+${createPlanFormatInstructions(formats)}
+
+IMPORTANT CONSTRAINTS:
+${formats.map(format => `${EDIT_FORMAT_CONSTRAINTS[format]}\n`).join('')}- Never propose changes to READ-ONLY FILES.
+- TRUNCATED files and FILE OUTLINEs are incomplete context; don't rely on code you can't see.
+- Do NOT include escaped newline characters like '\\n' in JSON string values. Use literal newlines.
+- Your response MUST be ONLY the JSON object.
+- If no changes are necessary, return an empty JSON object: {}.
+`;
+};
+
+
+export async function* getModificationJsonStream(
+  files: UploadedFile[],
+  selectedFileNames: string[],
+  userInstruction: string,
+  llm: LlmConnection,
+  model: ModelOption,
+  editFormat: EditFormat | 'auto',
+  refinement?: PlanRefinement,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  if (!userInstruction.trim()) {
+    return;
+  }
+
+  const { fileSections, listedFileNames, editFormats, budget } = planPromptContext(files, selectedFileNames, userInstruction, model, editFormat, refinement);
+  if (budget.estimatedTokens > budget.tokenLimit) {
+    throw new Error(`The files to modify need about ${formatTokenCount(budget.estimatedTokens)} tokens, more than the ${formatTokenCount(budget.tokenLimit)} ${model.label} accepts. Select fewer files or choose a model with a larger context window.`);
+  }
+  const prompt = createPrompt(files, selectedFileNames, userInstruction, fileSections, listedFileNames, editFormats, refinement);
+
+  yield* getLlmProvider(llm.provider).streamText(llm, {
+    model: model.id,
+    prompt,
+    temperature: 0.1,
+    schema: MODIFICATION_PLAN_SCHEMA,
+    signal,
+  });
+}
+
+const createRepairPrompt = (response: string, errors: string[], selectedFileNames: string[], userInstruction: string): string => `
+Your previous response to the USER REQUEST below was meant to be a JSON modification plan, but it doesn't match the required format.
+Return the corrected JSON object. Fix every listed PROBLEM and keep the intended changes exactly as they were.
+Your entire output MUST be a single, raw JSON object, without any surrounding text, explanations, or markdown fences.
+
+USER REQUEST:
+"${userInstruction}"
+
+MODIFIABLE FILES:
+[${selectedFileNames.length > 0 ? selectedFileNames.join(', ') : 'None'}]
+
+PROBLEMS (each prefixed with the path of the offending value):
+${errors.map(error => `- ${error}`).join('\n')}
+
+${createPlanFormatInstructions(ALL_EDIT_FORMATS)}
+
+YOUR PREVIOUS RESPONSE:
+${response}
+`;
+
+/**
+ * Asks the model to correct a modification plan that failed validation, streaming the corrected JSON.
+ */
+export async function* repairModificationJsonStream(
+  response: string,
+  errors: string[],
+  selectedFileNames: string[],
+  userInstruction: string,
+  llm: LlmConnection,
+  model: ModelOption,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  yield* getLlmProvider(llm.provider).streamText(llm, {
+    model: model.id,
+    prompt: createRepairPrompt(response, errors, selectedFileNames, userInstruction),
+    temperature: 0,
+    schema: MODIFICATION_PLAN_SCHEMA,
+    signal,
+  });
+}
+
+type InFileOperationKey = 'modify' | 'delete' | 'patch' | 'rewrite';
+
+const getOperationKey = (operation: InFileOperation): InFileOperationKey =>
+  'diff' in operation ? 'patch' : 'newCode' in operation ? 'modify' : 'codeToDelete' in operation ? 'delete' : 'rewrite';
+
+const createReanchorPrompt = (files: UploadedFile[], failures: FailedOperation[], userInstruction: string): string => {
+  const formats = ALL_EDIT_FORMATS.filter(format => failures.some(failure => EDIT_FORMAT_KEYS[format].includes(getOperationKey(failure.operation))));
+  const keys = formats.flatMap(format => EDIT_FORMAT_KEYS[format]);
+  return `
+Some operations of your JSON modification plan for the USER REQUEST below could not be applied, because the code they expect doesn't match the file exactly.
+For each FAILED OPERATION, write corrected operations of the same kind with the same intent, copying every snippet, and every context and removed line of a diff, exactly, character for character, from the CURRENT FILE CONTENT shown with it.
+${formats.includes('diff') ? `The excerpts don't show line numbers; when unsure of them, start a hunk with a bare "@@ @@" header.\n` : ''}Your entire output MUST be a single, raw JSON object with only the key "corrections", without any surrounding text, explanations, or markdown fences.
+
+${createProjectInstructionsSection(files)}USER REQUEST:
+"${userInstruction}"
+
+${failures.map((failure, index) => `FAILED OPERATION ${index + 1} ("${getOperationKey(failure.operation)}"): ${failure.reason}
+${JSON.stringify(failure.operation, null, 2)}
+CURRENT FILE CONTENT (excerpt of ${failure.operation.fileName}):
+${failure.surroundingContent}`).join('\n\n')}
+
+RESPONSE JSON FORMAT:
+{"corrections": [{"failures": ["1"], ${keys.map(key => `"${key}": [...]`).join(', ')}}, ...]}
+- "failures": The numbers of the FAILED OPERATIONs a correction replaces, as strings. One correction may replace a failed operation with several operations, or several failed operations with one.
+- Leave out failed operations you can't correct.
+${keys.map((key, index) => `${index + 1}. ${PLAN_FORMAT_SECTIONS[key]}`).join('\n\n')}
+`;
+};
+
+interface Correction {
+  failures: string[];
+  modify?: ModificationPlan['modify'];
+  delete?: ModificationPlan['delete'];
+  patch?: ModificationPlan['patch'];
+}
+
+// A failure still to be repaired, with the operations of the original plan it stands for
+interface OpenFailure {
+  failure: FailedOperation;
+  origins: InFileOperation[];
+}
+
+/**
+ * Applies a plan, sending the operations whose code can't be found back to the model to be re-anchored against the
+ * files' actual content, up to maxAttempts times.
+ * @returns The changed files, the plan as it was applied, what became of its in-file operations, and the operations given up on.
+ */
+export async function applyPlanWithRepairs(
+  files: UploadedFile[],
+  plan: ModificationPlan,
+  userInstruction: string,
+  llm: LlmConnection,
+  model: ModelOption,
+  maxAttempts: number,
+  onAttempt: (attempt: number, failedCount: number) => void,
+  signal?: AbortSignal
+): Promise<{ finalFiles: UploadedFile[], plan: ModificationPlan, tally: ApplyTally, abandoned: FailedOperation[] }> {
+  const initial = applyChanges(files, plan);
+  let finalFiles = initial.finalFiles;
+  let open: OpenFailure[] = initial.failedOperations.map(failure => ({ failure, origins: [failure.operation] }));
+  const initiallyFailed = new Set(open.map(({ failure }) => failure.operation));
+  const repaired: InFileOperation[] = [];
+
+  // Operations on missing or binary files can't be re-anchored, and neither can rewrites, which have no anchors
+  const isRepairable = ({ failure }: OpenFailure) => failure.surroundingContent !== null;
+  for (let attempt = 1; attempt <= maxAttempts && open.some(isRepairable); attempt++) {
+    const repairable = open.filter(isRepairable);
+    onAttempt(attempt, repairable.length);
+    const response = await getLlmProvider(llm.provider).generateText(llm, {
+      model: model.id,
+      prompt: createReanchorPrompt(files, repairable.map(({ failure }) => failure), userInstruction),
+      temperature: 0,
+      schema: REANCHOR_SCHEMA,
+      signal,
+    });
+    const { value } = parseSchemaResponse<{ corrections: Correction[] }>(response, REANCHOR_SCHEMA);
+    if (!value) continue;
+
+    const next = open.filter(failure => !isRepairable(failure));
+    const corrected = new Set<OpenFailure>();
+    for (const correction of value.corrections) {
+      // Each failure is replaced once; numbers that don't name an open failure are ignored
+      const replaced = [...new Set(correction.failures)]
+        .map(number => repairable[Number(number) - 1])
+        .filter(failure => failure && !corrected.has(failure));
+      const operations = [...(correction.delete ?? []), ...(correction.modify ?? []), ...(correction.patch ?? [])];
+      if (replaced.length === 0 || operations.length === 0) continue;
+      replaced.forEach(failure => corrected.add(failure));
+
+      const result = applyChanges(finalFiles, { delete: correction.delete, modify: correction.modify, patch: correction.patch });
+      finalFiles = result.finalFiles;
+      const stillFailing = new Set(result.failedOperations.map(failure => failure.operation));
+      repaired.push(...operations.filter(op => !stillFailing.has(op)));
+      // Corrections that fail in turn keep their failures open
+      const origins = replaced.flatMap(failure => failure.origins);
+      next.push(...result.failedOperations.map(failure => ({ failure, origins })));
+    }
+    open = [...next, ...repairable.filter(failure => !corrected.has(failure))];
+  }
+
+  // An operation of the original plan is repaired once no open failure stands for it
+  const stillOpen = new Set(open.flatMap(failure => failure.origins));
+  const repairedCount = [...initiallyFailed].filter(op => !stillOpen.has(op)).length;
+  const inFileKeys: InFileOperationKey[] = ['delete', 'modify', 'patch', 'rewrite'];
+  const inFileCount = inFileKeys.reduce((count, key) => count + (plan[key]?.length ?? 0), 0);
+  // The operations of each kind that took effect, whether as planned or as repaired
+  const appliedOperations = (key: InFileOperationKey) => [
+    ...((plan[key] ?? []) as InFileOperation[]).filter(op => !initiallyFailed.has(op)),
+    ...repaired.filter(op => getOperationKey(op) === key),
+  ];
+  return {
+    finalFiles,
+    plan: {
+      ...plan,
+      delete: appliedOperations('delete') as ModificationPlan['delete'],
+      modify: appliedOperations('modify') as ModificationPlan['modify'],
+      patch: appliedOperations('patch') as ModificationPlan['patch'],
+      rewrite: appliedOperations('rewrite') as ModificationPlan['rewrite'],
+    },
+    tally: { applied: inFileCount - initiallyFailed.size, repaired: repairedCount, abandoned: initiallyFailed.size - repairedCount },
+    abandoned: open.map(({ failure }) => failure),
+  };
+}
+
+// Imports and exports sketch how files depend on each other; a few per file are enough to pick the relevant ones
+const INDEX_LINE_PATTERN = /^\s*(import|export|from)\b|\brequire\(/;
+const MAX_INDEX_LINES_PER_FILE = 12;
+const MAX_INDEX_LINE_LENGTH = 120;
+
+const createFileIndex = (files: UploadedFile[], withDeclarations: boolean): string =>
+  files.map(file => {
+    const header = `${file.name} (${formatBytes(file.size ?? file.content.length)}, ~${formatTokenCount(estimateFileTokens(file))} tokens)`;
+    // The content of files that aren't downloaded yet is unknown
+    if (!withDeclarations || file.isLoaded === false) return header;
+    const declarations = file.content.split('\n')
+      .filter(line => INDEX_LINE_PATTERN.test(line))
+      .slice(0, MAX_INDEX_LINES_PER_FILE)
+      .map(line => `  ${line.trim().slice(0, MAX_INDEX_LINE_LENGTH)}`);
+    return [header, ...declarations].join('\n');
+  }).join('\n');
+
+const createFileSelectionPrompt = (files: UploadedFile[], fileIndex: string, userInstruction: string): string => `
+You help plan a code change. From the PROJECT FILES index below, choose the files the USER REQUEST requires editing, and the files worth reading in full for context, such as definitions the edited code uses, callers of changed code, or related tests.
+Keep both lists short: only files that matter. Use the exact paths from the index. New files the change needs are created later and don't belong in either list.
+Your entire output MUST be a single, raw JSON object: {"edit": ["path", ...], "read": ["path", ...], "notes": "One or two sentences on the choice."}
+
+${createProjectInstructionsSection(files, 'they may say where things belong')}USER REQUEST:
+"${userInstruction}"
+
+PROJECT FILES (path, size, and the imports and exports of files whose content is known):
+${fileIndex}
+`;
+
+/**
+ * Asks the model which files a change involves, from an index of the project's paths, sizes, imports and exports.
+ * Used before planning when the user lets the files to modify be chosen automatically.
+ */
+export async function suggestFileSelection(
+  files: UploadedFile[],
+  userInstruction: string,
+  llm: LlmConnection,
+  model: ModelOption,
+  signal?: AbortSignal
+): Promise<FileSelection> {
+  const candidates = files.filter(isEditableText);
+  // Large projects are indexed by path and size only, and cut off if even that doesn't fit
+  const tokenLimit = getPromptTokenLimit(model.contextWindow);
+  let fileIndex = createFileIndex(candidates, true);
+  if (estimateTokens(fileIndex) > tokenLimit) fileIndex = createFileIndex(candidates, false);
+  if (estimateTokens(fileIndex) > tokenLimit) fileIndex = `${fileIndex.slice(0, tokenLimit * 3)}\n[index truncated]`;
+
+  const response = await getLlmProvider(llm.provider).generateText(llm, {
+    model: model.id,
+    prompt: createFileSelectionPrompt(files, fileIndex, userInstruction),
+    temperature: 0,
+    schema: FILE_SELECTION_SCHEMA,
+    signal,
+  });
+
+  let value: unknown;
+  try {
+    value = JSON.parse(response.trim().replace(/^```\w*\n([\s\S]*?)\n```$/, '$1'));
+  } catch {
+    throw new Error('The AI returned an unreadable file selection. Please try again or select the files yourself.');
+  }
+  const errors = validateSchemaValue(value, FILE_SELECTION_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`The AI returned an invalid file selection (${errors[0]}). Please try again or select the files yourself.`);
+  }
+
+  // Paths the model made up are dropped
+  const known = new Set(candidates.map(file => file.name));
+  const selection = value as FileSelection;
+  const edit = [...new Set(selection.edit)].filter(name => known.has(name));
+  const read = [...new Set(selection.read)].filter(name => known.has(name) && !edit.includes(name));
+  return { edit, read, notes: selection.notes };
+}
+
+// Keeps commit message drafting fast and cheap on large change sets
+const MAX_COMMIT_DIFF_CHARS = 30000;
+
+const createCommitMessagePrompt = (originalFiles: UploadedFile[], modifiedFiles: UploadedFile[], notes: string | undefined, maxDiffChars: number): string => {
+  const originalMap = new Map(originalFiles.map(f => [f.name, f]));
+  const { changed, removed } = getChangedFiles(originalFiles, modifiedFiles);
+
+  let diff = [
+    ...changed.map(file => {
+      const original = originalMap.get(file.name);
+      if (!isEditableText(file)) return `Binary file ${original ? 'changed' : 'added'}: ${file.name}`;
+      return createUnifiedDiff(file.name, original ? original.content : null, file.content);
+    }),
+    ...removed.map(file => !isEditableText(file) ? `Binary file deleted: ${file.name}` : createUnifiedDiff(file.name, file.content, null)),
+  ].join('\n');
+  if (diff.length > maxDiffChars) {
+    diff = `${diff.slice(0, maxDiffChars)}\n[diff truncated]`;
+  }
+
+  return `
+You write git commit messages in the Conventional Commits style. Describe the CHANGES below.
+
+Rules:
+- The first line is the subject: "<type>(<optional scope>): <summary>", where type is one of feat, fix, refactor, perf, docs, style, test, build, ci or chore.
+- The subject is at most 72 characters, written in the imperative mood, lowercase after the colon, without a trailing period.
+- If the change needs explaining, add a blank line and a body wrapped at 72 characters that says what changed and why.
+- Output only the commit message, without markdown fences or any other text.
+
+${createProjectInstructionsSection(originalFiles, 'follow those about commit messages, even over the rules above')}${notes ? `AUTHOR'S NOTES ON THE CHANGES:\n${notes}\n` : ''}
+CHANGES (unified diff):
+${diff}
+`;
+};
+
+/**
+ * Drafts a Conventional Commits message from the per-file changes between two sets of files.
+ */
+export async function draftCommitMessage(
+  originalFiles: UploadedFile[],
+  modifiedFiles: UploadedFile[],
+  notes: string | undefined,
+  llm: LlmConnection,
+  model: ModelOption
+): Promise<string> {
+  // Models with a small context window get less of the diff
+  const maxDiffChars = Math.min(MAX_COMMIT_DIFF_CHARS, getPromptTokenLimit(model.contextWindow) * 3);
+  const response = await getLlmProvider(llm.provider).generateText(llm, {
+    model: model.id,
+    prompt: createCommitMessagePrompt(originalFiles, modifiedFiles, notes, maxDiffChars),
+    temperature: 0.2,
+  });
+  const text = response.trim();
+  // Models occasionally wrap the message in a fence despite the instructions
+  return text.replace(/^```\w*\n([\s\S]*?)\n```$/, '$1').trim();
+}
@@ -0,0 +1,171 @@
+import { RateLimitInfo, GitConnection } from '../types';
+
+// At most this many API requests are in flight at once; the rest wait in a queue
+const MAX_CONCURRENT_REQUESTS = 6;
+const MAX_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 1000;
+// Longer waits (e.g. for the hourly primary limit to reset) are reported as errors instead
+const MAX_RETRY_DELAY_MS = 60_000;
+
+// GitHub and Gitea both accept the `token` authorization scheme
+const commonHeaders = (conn: GitConnection) => ({
+    'Authorization': `token ${conn.token}`,
+    'Accept': conn.provider === 'github' ? 'application/vnd.github.v3+json' : 'application/json',
+});
+
+let activeRequests = 0;
+const waitingRequests: Array<() => void> = [];
+
+const acquireSlot = (): Promise<void> => {
+    if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+        activeRequests++;
+        return Promise.resolve();
+    }
+    return new Promise(resolve => waitingRequests.push(resolve));
+};
+
+const releaseSlot = () => {
+    const next = waitingRequests.shift();
+    if (next) {
+        // Hand the slot straight to the next waiting request
+        next();
+    } else {
+        activeRequests--;
+    }
+};
+
+let currentRateLimit: RateLimitInfo | null = null;
+const rateLimitListeners = new Set<(info: RateLimitInfo) => void>();
+
+/**
+ * Subscribes to rate limit updates, which are read from the headers of every API response that has them.
+ * @returns A function that unsubscribes the listener.
+ */
+export const onRateLimitChange = (listener: (info: RateLimitInfo) => void): (() => void) => {
+    rateLimitListeners.add(listener);
+    if (currentRateLimit) listener(currentRateLimit);
+    return () => { rateLimitListeners.delete(listener); };
+};
+
+const recordRateLimit = (response: Response) => {
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (limit === null || remaining === null || reset === null) return;
+
+    currentRateLimit = {
+        limit: parseInt(limit, 10),
+        remaining: parseInt(remaining, 10),
+        resetAt: parseInt(reset, 10) * 1000,
+    };
+    rateLimitListeners.forEach(listener => listener(currentRateLimit!));
+};
+
+const isRateLimited = (response: Response) =>
+    response.status === 429 ||
+    (response.status === 403 && (response.headers.has('Retry-After') || response.headers.get('X-RateLimit-Remaining') === '0'));
+
+// Computes how long to wait before retrying, honoring Retry-After and the rate limit reset time
+const getRetryDelay = (response: Response | null, attempt: number): number => {
+    const retryAfter = response?.headers.get('Retry-After');
+    if (retryAfter) {
+        const seconds = parseInt(retryAfter, 10);
+        if (!isNaN(seconds)) return seconds * 1000;
+    }
+    if (response?.headers.get('X-RateLimit-Remaining') === '0') {
+        const reset = parseInt(response.headers.get('X-RateLimit-Reset') ?? '', 10);
+        if (!isNaN(reset)) return Math.max(reset * 1000 - Date.now(), 0) + 1000;
+    }
+    const jitter = Math.random() * BASE_RETRY_DELAY_MS;
+    return BASE_RETRY_DELAY_MS * 2 ** attempt + jitter;
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface ApiFetchOptions {
+    // Whether the request may be repeated after a server error. Requests rejected by rate limiting are always retried.
+    idempotent?: boolean;
+}
+
+/**
+ * Sends a request to a hosting provider's API through a shared, bounded request pool. Rate-limited requests and,
+ * for idempotent requests, transient server and network errors are retried with exponential backoff.
+ * @param conn The connection, providing the API base URL and token.
+ * @param path An API path such as `/repos/owner/repo`, or an absolute URL.
+ * @param init Options passed to `fetch`. A JSON content type is added when there is a body.
+ * @param options Retry behavior; requests are idempotent by default unless they are POSTs.
+ * @returns The final response, which may still be an error response for the caller to handle.
+ */
+export async function apiFetch(conn: GitConnection, path: string, init: RequestInit = {}, options: ApiFetchOptions = {}): Promise<Response> {
+    const url = path.startsWith('http') ? path : `${conn.baseUrl}${path}`;
+    const headers = {
+        ...commonHeaders(conn),
+        ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+        ...(init.headers as Record<string, string> | undefined),
+    };
+    const idempotent = options.idempotent ?? (init.method ?? 'GET').toUpperCase() !== 'POST';
+
+    for (let attempt = 0; ; attempt++) {
+        await acquireSlot();
+        let response: Response | null = null;
+        try {
+            response = await fetch(url, { ...init, headers });
+        } catch (e) {
+            if (!idempotent || attempt >= MAX_RETRIES) throw e;
+            console.warn(`API request failed, retrying: ${url}`, e);
+        } finally {
+            releaseSlot();
+        }
+
+        if (response) {
+            recordRateLimit(response);
+            const rateLimited = isRateLimited(response);
+            const retryable = rateLimited || (idempotent && response.status >= 500);
+            if (!retryable || attempt >= MAX_RETRIES) {
+                if (rateLimited) {
+                    throw new Error(`API rate limit exceeded${currentRateLimit ? `; it resets at ${new Date(currentRateLimit.resetAt).toLocaleTimeString()}` : ''}.`);
+                }
+                return response;
+            }
+        }
+
+        const delay = getRetryDelay(response, attempt);
+        if (delay > MAX_RETRY_DELAY_MS) {
+            throw new Error(`API rate limit exceeded; it resets at ${new Date(Date.now() + delay).toLocaleTimeString()}.`);
+        }
+        await sleep(delay);
+    }
+}
+
+const parseNextLink = (linkHeader: string | null): string | null => {
+    if (!linkHeader) return null;
+    const match = linkHeader.split(',').map(part => part.match(/<([^>]+)>;\s*rel="next"/)).find(Boolean);
+    return match ? match[1] : null;
+};
+
+/**
+ * Fetches every page of a list endpoint by following the `Link` header's `rel="next"` URLs.
+ * @param conn The connection, providing the API base URL and token.
+ * @param path The API path of the first page, ideally with `per_page=100`.
+ * @param errorContext Prefix for the error message if a page fails, e.g. "Failed to fetch branches".
+ * @returns The items of all pages, in order.
+ */
+export async function apiFetchAllPages<T>(conn: GitConnection, path: string, errorContext: string): Promise<T[]> {
+    const items: T[] = [];
+    const fetchedPaths = new Set<string>();
+    let nextPath: string | null = path;
+    while (nextPath) {
+        // A server linking back to a page it already returned would otherwise be paged forever
+        if (fetchedPaths.has(nextPath)) throw new Error(`${errorContext}: the server's page links loop back to ${nextPath}`);
+        fetchedPaths.add(nextPath);
+        const response = await apiFetch(conn, nextPath);
+        if (!response.ok) {
+            if (response.status === 401) throw new Error(`Invalid authentication token.`);
+            const errorData = await response.json().catch(() => ({}));
+            throw new Error(`${errorContext}: ${errorData.message || response.statusText}`);
+        }
+        items.push(...await response.json());
+        nextPath = parseNextLink(response.headers.get('Link'));
+    }
+    return items;
+}
@@ -0,0 +1,8 @@
+import { GitProvider, GitProviderId } from '../types';
+import { githubProvider } from './githubService';
+import { giteaProvider } from './giteaService';
+
+export const GIT_PROVIDERS: GitProvider[] = [githubProvider, giteaProvider];
+
+export const getGitProvider = (id: GitProviderId): GitProvider =>
+    GIT_PROVIDERS.find(provider => provider.id === id) ?? githubProvider;
@@ -0,0 +1,426 @@
+import { UploadedFile, GitConnection, GitProvider, BranchInfo, RepoSnapshot, CommitDetails, CommitResult, PullRequestResult, RemoteDrift, FetchProgress, RepoSummary, GitAccount, CommitHistoryPage, PullRequestSummary, ReviewComment, IssueSummary, IssueThread, TokenInfo } from '../types';
+import { getChangedFiles } from '../utils/codeModifier';
+import { formatCommitMessage } from '../utils/commitMessage';
+import { apiFetch, apiFetchAllPages } from './apiClient';
+import { blobToUploadedFile, guessFileType, encodeBase64, submoduleToUploadedFile } from '../utils/blob';
+import { parseGitAttributes } from '../utils/gitattributes';
+
+// Gitea caps list pages at 50 items by default
+const PAGE_LIMIT = 50;
+
+const readError = async (response: Response): Promise<string> => {
+    const errorData = await response.json().catch(() => ({}));
+    return errorData.message || response.statusText;
+};
+
+async function fetchAuthenticatedUser(conn: GitConnection): Promise<string> {
+    const response = await apiFetch(conn, '/user');
+    if (!response.ok) {
+        if (response.status === 401) throw new Error(`Invalid authentication token.`);
+        throw new Error(`Failed to fetch the authenticated user: ${response.statusText}`);
+    }
+    return (await response.json()).login;
+}
+
+// Gitea doesn't report the scopes or expiry of the token making a request
+async function fetchTokenInfo(conn: GitConnection): Promise<TokenInfo> {
+    return { login: await fetchAuthenticatedUser(conn), scopes: null, expiresAt: null };
+}
+
+async function fetchAccounts(conn: GitConnection): Promise<GitAccount[]> {
+    const [login, orgs] = await Promise.all([
+        fetchAuthenticatedUser(conn),
+        apiFetchAllPages<any>(conn, `/user/orgs?limit=${PAGE_LIMIT}`, 'Failed to fetch organizations'),
+    ]);
+    return [
+        { login, isOrganization: false },
+        ...orgs.map(org => ({ login: org.username ?? org.name, isOrganization: true })),
+    ];
+}
+
+const toRepoSummary = (repo: any): RepoSummary => ({
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description || null,
+    private: repo.private,
+    fork: repo.fork,
+    archived: repo.archived,
+    // Gitea doesn't report the last push separately
+    pushedAt: repo.updated_at ?? null,
+    defaultBranch: repo.default_branch,
+});
+
+async function fetchUserRepos(conn: GitConnection, owner: string): Promise<RepoSummary[]> {
+    const errorContext = `Failed to fetch repositories for '${owner}'`;
+    let repos: any[];
+    if (owner.toLowerCase() === (await fetchAuthenticatedUser(conn)).toLowerCase()) {
+        // Only /user/repos includes the token holder's private repositories
+        const ownRepos = await apiFetchAllPages<any>(conn, `/user/repos?limit=${PAGE_LIMIT}`, errorContext);
+        repos = ownRepos.filter(repo => repo.owner?.login?.toLowerCase() === owner.toLowerCase());
+    } else {
+        const orgResponse = await apiFetch(conn, `/orgs/${encodeURIComponent(owner)}`);
+        const ownerPath = orgResponse.ok ? 'orgs' : 'users';
+        repos = await apiFetchAllPages<any>(conn, `/${ownerPath}/${owner}/repos?limit=${PAGE_LIMIT}`, errorContext);
+    }
+    return repos
+        .map(toRepoSummary)
+        .sort((a, b) => (b.pushedAt ?? '').localeCompare(a.pushedAt ?? ''));
+}
+
+async function fetchRepoBranches(conn: GitConnection, owner: string, repo: string): Promise<BranchInfo[]> {
+    const data = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/branches?limit=${PAGE_LIMIT}`, `Failed to fetch branches for '${repo}'`);
+    return data.map(branch => ({
+        name: branch.name,
+        commitSha: branch.commit.id,
+        protected: !!branch.protected,
+    }));
+}
+
+async function fetchBranchHead(conn: GitConnection, owner: string, repo: string, branch: string): Promise<string> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/branches/${encodeURIComponent(branch)}`);
+    if (!response.ok) throw new Error(`Failed to fetch branch details: ${await readError(response)}`);
+    return (await response.json()).commit.id;
+}
+
+async function fetchRepoContents(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    branch?: string,
+    onProgress?: (progress: FetchProgress) => void
+): Promise<RepoSnapshot> {
+    const repoResponse = await apiFetch(conn, `/repos/${owner}/${repo}`);
+    if (!repoResponse.ok) {
+        if (repoResponse.status === 404) throw new Error(`Repository not found.`);
+        throw new Error(`Failed to fetch repo details: ${await readError(repoResponse)}`);
+    }
+    const defaultBranch: string = (await repoResponse.json()).default_branch;
+    const targetBranch = branch || defaultBranch;
+    const lastCommitSha = await fetchBranchHead(conn, owner, repo, targetBranch);
+
+    return {
+        files: await fetchCommitFiles(conn, owner, repo, lastCommitSha, onProgress),
+        branch: targetBranch,
+        defaultBranch,
+        commitSha: lastCommitSha,
+    };
+}
+
+async function fetchCommitFiles(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    commitSha: string,
+    onProgress?: (progress: FetchProgress) => void
+): Promise<UploadedFile[]> {
+    // Gitea paginates large recursive trees instead of truncating them
+    const entries: any[] = [];
+    for (let page = 1; ; page++) {
+        const treeResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/trees/${commitSha}?recursive=true&per_page=1000&page=${page}`);
+        if (!treeResponse.ok) throw new Error(`Failed to fetch file tree: ${await readError(treeResponse)}`);
+        const treeData = await treeResponse.json();
+        entries.push(...(treeData.tree ?? []));
+        onProgress?.({ label: 'Listed tree pages', completed: page });
+        if (!treeData.truncated) break;
+    }
+
+    const submodules = entries
+        .filter(entry => entry.type === 'commit')
+        .map(entry => submoduleToUploadedFile(entry.path, entry.sha));
+    const blobs = entries
+        .filter(entry => entry.type === 'blob')
+        .map((entry): UploadedFile => ({
+            name: entry.path,
+            content: '',
+            type: guessFileType(entry.path).type,
+            mode: entry.mode,
+            sha: entry.sha,
+            size: entry.size,
+            isLoaded: entry.size === 0,
+        }));
+    return [...blobs, ...submodules];
+}
+
+async function fetchCommitHistory(conn: GitConnection, owner: string, repo: string, branch: string, page: number): Promise<CommitHistoryPage> {
+    // Skip the per-commit file lists and stats, which make large pages slow
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(branch)}&limit=${PAGE_LIMIT}&page=${page}&stat=false&files=false`);
+    if (!response.ok) throw new Error(`Failed to fetch commit history: ${await readError(response)}`);
+    const data: any[] = await response.json();
+    return {
+        commits: data.map(item => ({
+            sha: item.sha,
+            message: item.commit.message,
+            authorName: item.commit.author?.name ?? item.author?.login ?? 'unknown',
+            authorDate: item.commit.author?.date ?? item.created,
+            url: item.html_url,
+        })),
+        hasMore: response.headers.get('X-HasMore') === 'true',
+    };
+}
+
+async function fetchFileContents(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    files: UploadedFile[],
+    onProgress?: (progress: FetchProgress) => void
+): Promise<UploadedFile[]> {
+    let completed = 0;
+    const results = await Promise.all(files.map(async (file): Promise<UploadedFile | null> => {
+        try {
+            if (!file.sha) return null;
+            if (file.isSubmodule) return file;
+            const blobResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/blobs/${file.sha}`);
+            if (!blobResponse.ok) {
+                console.warn(`Could not fetch blob for ${file.name}`);
+                return null;
+            }
+            const blobData = await blobResponse.json();
+            return { ...blobToUploadedFile(file.name, blobData.content ?? '', file.mode, file.sha), size: file.size };
+        } finally {
+            completed++;
+            onProgress?.({ label: 'Fetched files', completed, total: files.length });
+        }
+    }));
+    return results.filter((file): file is UploadedFile => file !== null);
+}
+
+async function checkRemoteDrift(conn: GitConnection, owner: string, repo: string, branch: string, fetchedSha: string): Promise<RemoteDrift | null> {
+    const headSha = await fetchBranchHead(conn, owner, repo, branch);
+    if (headSha === fetchedSha) return null;
+
+    const compareResponse = await apiFetch(conn, `/repos/${owner}/${repo}/compare/${fetchedSha}...${headSha}`);
+    if (!compareResponse.ok) throw new Error(`Failed to compare ${branch} with the fetched commit: ${await readError(compareResponse)}`);
+    const compareData = await compareResponse.json();
+
+    // Gitea reports changed files per commit rather than for the whole range
+    const changedPaths = new Set<string>();
+    for (const commit of compareData.commits ?? []) {
+        for (const file of commit.files ?? []) {
+            changedPaths.add(file.filename);
+        }
+    }
+    return { headSha, changedPaths: Array.from(changedPaths) };
+}
+
+async function fetchFileAtRef(conn: GitConnection, owner: string, repo: string, path: string, ref: string): Promise<UploadedFile | null> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to fetch ${path} at ${ref.slice(0, 7)}: ${await readError(response)}`);
+    const data = await response.json();
+    if (data.type === 'submodule') return submoduleToUploadedFile(path, data.sha);
+    if (data.type !== 'file') return null;
+    return blobToUploadedFile(path, data.content ?? '', undefined, data.sha);
+}
+
+async function createBranch(conn: GitConnection, owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/branches`, {
+        method: 'POST',
+        body: JSON.stringify({ new_branch_name: branchName, old_ref_name: fromSha }),
+    });
+    if (!response.ok) {
+        if (response.status === 409) throw new Error(`Branch '${branchName}' already exists.`);
+        throw new Error(`Failed to create branch '${branchName}': ${await readError(response)}`);
+    }
+}
+
+/**
+ * Commits through Gitea's multi-file contents API, which has no low-level tree or commit endpoints.
+ * The commit always lands on the branch head; updates and deletions carry the SHA of the blob they
+ * replace, so Gitea rejects them if the file changed on the remote after `parentCommitSha`.
+ * Existing file modes are kept by Gitea, but new files are always created as regular files.
+ */
+async function commitChanges(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    branch: string,
+    parentCommitSha: string,
+    originalFiles: UploadedFile[],
+    modifiedFiles: UploadedFile[],
+    commit: CommitDetails
+): Promise<CommitResult> {
+    const originalMap = new Map(originalFiles.map(f => [f.name, f]));
+    const { changed, removed } = getChangedFiles(originalFiles, modifiedFiles);
+    if (changed.length === 0 && removed.length === 0) {
+        throw new Error('There are no changes to commit.');
+    }
+
+    // The .gitattributes of the new tree decide how text line endings are stored
+    const attributeRules = parseGitAttributes(modifiedFiles);
+
+    // Files changed or created by an earlier commit of this session carry no blob SHA, so it is read from the parent commit
+    const replaced = [...changed.map(file => originalMap.get(file.name)), ...removed].filter((f): f is UploadedFile => !!f);
+    const parentShas = replaced.some(f => !f.sha)
+        ? new Map((await fetchCommitFiles(conn, owner, repo, parentCommitSha)).map(f => [f.name, f.sha]))
+        : new Map<string, string | undefined>();
+    const blobSha = (file: UploadedFile) => file.sha ?? parentShas.get(file.name);
+
+    const operations = [
+        ...changed.map(file => {
+            const original = originalMap.get(file.name);
+            return original
+                ? { operation: 'update', path: file.name, content: encodeBase64(file, attributeRules), sha: blobSha(original) }
+                : { operation: 'create', path: file.name, content: encodeBase64(file, attributeRules) };
+        }),
+        ...removed.map(file => ({ operation: 'delete', path: file.name, sha: blobSha(file) })),
+    ];
+
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/contents`, {
+        method: 'POST',
+        body: JSON.stringify({
+            branch,
+            message: formatCommitMessage(commit),
+            files: operations,
+            ...(commit.author && { author: commit.author }),
+        }),
+    });
+    if (!response.ok) {
+        if (response.status === 409 || response.status === 422) {
+            throw new Error(`Branch ${branch} has moved since ${parentCommitSha.slice(0, 7)} and the changes no longer apply: ${await readError(response)}`);
+        }
+        throw new Error(`Failed to create commit: ${await readError(response)}`);
+    }
+    const data = await response.json();
+    return { sha: data.commit.sha, url: data.commit.html_url };
+}
+
+const toPullRequestSummary = (pull: any): PullRequestSummary => ({
+    number: pull.number,
+    title: pull.title,
+    author: pull.user?.login ?? 'unknown',
+    headBranch: pull.head.ref,
+    baseBranch: pull.base.ref,
+    headSha: pull.head.sha,
+    url: pull.html_url,
+    isFromFork: pull.head.repo?.full_name !== pull.base.repo?.full_name,
+    updatedAt: pull.updated_at,
+});
+
+async function fetchOpenPullRequests(conn: GitConnection, owner: string, repo: string): Promise<PullRequestSummary[]> {
+    const pulls = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls?state=open&sort=recentupdate&limit=${PAGE_LIMIT}`, 'Failed to list pull requests');
+    return pulls.map(toPullRequestSummary);
+}
+
+async function fetchPullRequestMergeBase(conn: GitConnection, owner: string, repo: string, pullNumber: number): Promise<string> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}`);
+    if (!response.ok) throw new Error(`Failed to fetch pull request #${pullNumber}: ${await readError(response)}`);
+    // Gitea records the merge base on the pull request itself
+    return (await response.json()).merge_base;
+}
+
+async function fetchReviewComments(conn: GitConnection, owner: string, repo: string, pullNumber: number): Promise<ReviewComment[]> {
+    const reviews = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews?limit=${PAGE_LIMIT}`, 'Failed to fetch reviews');
+    // Line comments are only listed per review
+    const lineComments = await Promise.all(reviews
+        .filter(review => review.comments_count > 0)
+        .map(async review => {
+            const response = await apiFetch(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews/${review.id}/comments`);
+            if (!response.ok) throw new Error(`Failed to fetch review comments: ${await readError(response)}`);
+            return response.json() as Promise<any[]>;
+        }));
+    const comments: ReviewComment[] = [
+        ...reviews
+            .filter(review => review.body?.trim())
+            .map(review => ({ author: review.user?.login ?? 'unknown', body: review.body, path: null, line: null, createdAt: review.submitted_at })),
+        ...lineComments.flat().map(comment => ({
+            author: comment.user?.login ?? 'unknown',
+            body: comment.body,
+            path: comment.path,
+            // Gitea's line on the new side of the diff, or 0 for a comment on a removed line, whose original_position counts lines of the old file instead
+            line: comment.position > 0 ? comment.position : null,
+            createdAt: comment.created_at,
+        })),
+    ];
+    return comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+const toIssueSummary = (issue: any): IssueSummary => ({
+    number: issue.number,
+    title: issue.title,
+    author: issue.user?.login ?? 'unknown',
+    url: issue.html_url,
+    commentsCount: issue.comments ?? 0,
+    updatedAt: issue.updated_at,
+});
+
+async function fetchOpenIssues(conn: GitConnection, owner: string, repo: string): Promise<IssueSummary[]> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/issues?state=open&type=issues&limit=${PAGE_LIMIT}`);
+    if (!response.ok) throw new Error(`Failed to list issues: ${await readError(response)}`);
+    const issues: any[] = await response.json();
+    return issues.map(toIssueSummary);
+}
+
+async function fetchIssueThread(conn: GitConnection, owner: string, repo: string, issueNumber: number): Promise<IssueThread> {
+    const [response, comments] = await Promise.all([
+        apiFetch(conn, `/repos/${owner}/${repo}/issues/${issueNumber}`),
+        apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/issues/${issueNumber}/comments?limit=${PAGE_LIMIT}`, `Failed to fetch comments of issue #${issueNumber}`),
+    ]);
+    if (!response.ok) throw new Error(`Failed to fetch issue #${issueNumber}: ${await readError(response)}`);
+    const issue = await response.json();
+    return {
+        ...toIssueSummary(issue),
+        body: issue.body ?? '',
+        comments: comments.map(comment => ({
+            author: comment.user?.login ?? 'unknown',
+            body: comment.body ?? '',
+            createdAt: comment.created_at,
+        })),
+    };
+}
+
+async function createPullRequest(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    head: string,
+    base: string,
+    title: string,
+    body: string
+): Promise<PullRequestResult> {
+    // Gitea can't filter open PRs by head, so look for an existing one by hand
+    const openPulls = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls?state=open&limit=${PAGE_LIMIT}`, 'Failed to list pull requests');
+    const existing = openPulls.find(pull => pull.head?.ref === head && pull.base?.ref === base);
+    if (existing) {
+        return { number: existing.number, url: existing.html_url, isNew: false };
+    }
+
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/pulls`, {
+        method: 'POST',
+        body: JSON.stringify({ title, body, head, base }),
+    });
+    if (!response.ok) throw new Error(`Failed to open pull request: ${await readError(response)}`);
+    const prData = await response.json();
+    return { number: prData.number, url: prData.html_url, isNew: true };
+}
+
+export const giteaProvider: GitProvider = {
+    id: 'gitea',
+    label: 'Gitea',
+    defaultHost: 'https://gitea.com',
+    resolveApiBase: host => {
+        const normalized = host.trim().replace(/\/+$/, '') || 'https://gitea.com';
+        return /\/api\/v1$/.test(normalized) ? normalized : `${normalized}/api/v1`;
+    },
+    tokenHelp: "Create an access token under Settings > Applications with read and write access to repositories and issues, and read access to organizations and your user.",
+    requiredScopes: [],
+    fetchTokenInfo,
+    fetchAccounts,
+    fetchUserRepos,
+    fetchRepoBranches,
+    fetchRepoContents,
+    fetchFileContents,
+    fetchCommitHistory,
+    fetchCommitFiles,
+    checkRemoteDrift,
+    fetchFileAtRef,
+    createBranch,
+    commitChanges,
+    fetchOpenPullRequests,
+    fetchPullRequestMergeBase,
+    fetchReviewComments,
+    fetchOpenIssues,
+    fetchIssueThread,
+    createPullRequest,
+};
@@ -1,37 +1,50 @@
-import { UploadedFile } from '../types';
+import { UploadedFile, GitConnection, GitProvider, BranchInfo, RepoSnapshot, CommitDetails, CommitResult, PullRequestResult, RemoteDrift, FetchProgress, RepoSummary, GitAccount, CommitHistoryPage, PullRequestSummary, ReviewComment, IssueSummary, IssueThread, TokenInfo, DeviceLoginPrompt } from '../types';
+import { getChangedFiles } from '../utils/codeModifier';
+import { formatCommitMessage } from '../utils/commitMessage';
+import { apiFetch, apiFetchAllPages } from './apiClient';
+import { blobToUploadedFile, guessFileType, encodeBase64, submoduleToUploadedFile } from '../utils/blob';
+import { parseGitAttributes } from '../utils/gitattributes';
 
-const GITHUB_API_BASE = 'https://api.github.com';
+interface TreeEntry {
+    path: string;
+    mode: string;
+    type: 'blob' | 'tree' | 'commit';
+    sha: string;
+    size?: number;
+}
 
-const commonHeaders = (token: string) => ({
-    'Authorization': `token ${token}`,
-    'Accept': 'application/vnd.github.v3+json',
-});
+// GitHub's compare endpoint lists no more than this many changed files
+const MAX_COMPARE_FILES = 300;
 
-// Helper to decode base64 content
-const decodeBase64 = (encoded: string): string => {
-    try {
-        const binaryString = atob(encoded);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-        return new TextDecoder().decode(bytes);
-    } catch (e) {
-        console.error("Failed to decode base64 string", e);
-        // Fallback for non-UTF8 content might be needed, but for code this is usually sufficient
-        try {
-          return atob(encoded);
-        } catch {
-          return "";
-        }
+// Branch names may contain '/', which the refs endpoints take as path separators, so only the segments are encoded
+const branchRefPath = (branch: string) => `git/refs/heads/${branch.split('/').map(encodeURIComponent).join('/')}`;
+
+// Lists every entry under a tree. When the recursive listing is truncated, sub-trees are walked one level at a time instead.
+async function fetchTreeEntries(conn: GitConnection, owner: string, repo: string, treeSha: string, prefix = '', onTreeFetched?: () => void): Promise<TreeEntry[]> {
+    const recursiveResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`);
+    if (!recursiveResponse.ok) throw new Error(`Failed to fetch file tree: ${recursiveResponse.statusText}`);
+    const recursiveData = await recursiveResponse.json();
+    onTreeFetched?.();
+
+    if (!recursiveData.truncated) {
+        return recursiveData.tree.map((entry: TreeEntry) => ({ ...entry, path: prefix + entry.path }));
     }
+
+    const levelResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/trees/${treeSha}`);
+    if (!levelResponse.ok) throw new Error(`Failed to fetch file tree: ${levelResponse.statusText}`);
+    const levelData = await levelResponse.json();
+
+    const nested = await Promise.all(levelData.tree.map(async (entry: TreeEntry) => {
+        const path = prefix + entry.path;
+        if (entry.type !== 'tree') return [{ ...entry, path }];
+        return [{ ...entry, path }, ...await fetchTreeEntries(conn, owner, repo, entry.sha, `${path}/`, onTreeFetched)];
+    }));
+    return nested.flat();
 }
 
 // Function to get repository details, including default branch
-async function getRepoDetails(owner: string, repo: string, token: string) {
-    const response = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`, {
-        headers: commonHeaders(token),
-    });
+async function getRepoDetails(owner: string, repo: string, conn: GitConnection) {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}`);
     if (!response.ok) {
         if (response.status === 404) throw new Error(`Repository not found.`);
         if (response.status === 401) throw new Error(`Invalid authentication token.`);
@@ -41,175 +54,631 @@ async function getRepoDetails(owner: string, repo: string, token: string) {
     return response.json();
 }
 
-export async function fetchUserRepos(token: string, owner: string): Promise<{ name: string }[]> {
-    let reposUrl = `${GITHUB_API_BASE}/users/${owner}/repos?sort=updated&per_page=100`;
-    let response = await fetch(reposUrl, { headers: commonHeaders(token) });
-
-    if (response.status === 404) {
-        // If user is not found, it could be an organization
-        reposUrl = `${GITHUB_API_BASE}/orgs/${owner}/repos?sort=updated&per_page=100`;
-        response = await fetch(reposUrl, { headers: commonHeaders(token) });
+/**
+ * Gets the login of the token holder.
+ */
+export async function fetchAuthenticatedUser(conn: GitConnection): Promise<string> {
+    const response = await apiFetch(conn, '/user');
+    if (!response.ok) {
+        if (response.status === 401) throw new Error(`Invalid authentication token.`);
+        throw new Error(`Failed to fetch the authenticated user: ${response.statusText}`);
     }
+    return (await response.json()).login;
+}
 
+/**
+ * Reads the login, scopes and expiry of the token from the headers GitHub adds to every authenticated response.
+ */
+export async function fetchTokenInfo(conn: GitConnection): Promise<TokenInfo> {
+    const response = await apiFetch(conn, '/user');
     if (!response.ok) {
         if (response.status === 401) throw new Error(`Invalid authentication token.`);
-        const errorData = await response.json();
-        throw new Error(`Failed to fetch repositories for '${owner}': ${errorData.message || response.statusText}`);
+        throw new Error(`Failed to check the token: ${response.statusText}`);
     }
+    const login: string = (await response.json()).login;
+    // Classic and OAuth tokens list their scopes; fine-grained tokens have no scopes and omit the header
+    const scopes = response.headers.get('X-OAuth-Scopes');
+    // e.g. '2024-06-30 12:00:00 UTC'
+    const expiration = response.headers.get('GitHub-Authentication-Token-Expiration');
+    return {
+        login,
+        scopes: scopes === null ? null : scopes.split(',').map(scope => scope.trim()).filter(Boolean),
+        expiresAt: expiration ? new Date(expiration.replace(' ', 'T').replace(' UTC', 'Z')).toISOString() : null,
+    };
+}
 
-    const data = await response.json();
-    return data.map((repo: any) => ({ name: repo.name }));
+const OAUTH_CLIENT_ID = process.env.GITHUB_OAUTH_CLIENT_ID;
+// GitHub's login endpoints don't allow cross-origin requests, so browsers have to reach them through a proxy
+const OAUTH_PROXY_URL = process.env.GITHUB_OAUTH_PROXY_URL;
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+
+// GitHub reports most login failures in the body of a successful response
+interface LoginResponse {
+    error?: string;
+    error_description?: string;
+}
+
+interface DeviceCodeResponse extends LoginResponse {
+    device_code: string;
+    user_code: string;
+    verification_uri: string;
+    expires_in: number;
+    interval: number;
+}
+
+interface AccessTokenResponse extends LoginResponse {
+    access_token?: string;
+    interval?: number; // The new polling interval, sent with 'slow_down'
+}
+
+const postLoginForm = async <T extends LoginResponse>(clientId: string, host: string, path: string, params: Record<string, string>): Promise<T> => {
+    const loginBase = (OAUTH_PROXY_URL || host.trim() || 'https://github.com').replace(/\/+$/, '');
+    const response = await fetch(`${loginBase}${path}`, {
+        method: 'POST',
+        headers: { 'Accept': 'application/json', 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ client_id: clientId, ...params }),
+    });
+    if (!response.ok) throw new Error(`GitHub login request failed: ${response.statusText}`);
+    return response.json() as Promise<T>;
+};
+
+/**
+ * Starts an OAuth device flow login, asking for the scopes the app needs.
+ */
+export async function startDeviceLogin(clientId: string, host: string): Promise<DeviceLoginPrompt> {
+    const data = await postLoginForm<DeviceCodeResponse>(clientId, host, '/login/device/code', { scope: 'repo read:org' });
+    if (data.error) throw new Error(data.error_description || data.error);
+    return {
+        deviceCode: data.device_code,
+        userCode: data.user_code,
+        verificationUri: data.verification_uri,
+        expiresAt: Date.now() + data.expires_in * 1000,
+        interval: data.interval,
+    };
+}
+
+const waitForPoll = (seconds: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, seconds * 1000);
+    signal.addEventListener('abort', () => {
+        clearTimeout(timer);
+        reject(new DOMException('The login was cancelled.', 'AbortError'));
+    }, { once: true });
+});
+
+/**
+ * Polls until the user approves or rejects a device flow login, or its code expires.
+ * @returns The OAuth access token.
+ */
+export async function pollDeviceLogin(clientId: string, host: string, prompt: DeviceLoginPrompt, signal: AbortSignal): Promise<string> {
+    let interval = prompt.interval;
+    while (Date.now() < prompt.expiresAt) {
+        await waitForPoll(interval, signal);
+        const data = await postLoginForm<AccessTokenResponse>(clientId, host, '/login/oauth/access_token', { device_code: prompt.deviceCode, grant_type: DEVICE_GRANT_TYPE });
+        if (data.access_token) return data.access_token;
+        switch (data.error) {
+            case 'authorization_pending':
+                break;
+            case 'slow_down':
+                // GitHub asks for five more seconds between polls each time
+                interval = data.interval ?? interval + 5;
+                break;
+            case 'access_denied':
+                throw new Error('The login was denied.');
+            case 'expired_token':
+                throw new Error('The login code expired. Start the login again.');
+            default:
+                throw new Error(data.error_description || data.error || 'The login failed.');
+        }
+    }
+    throw new Error('The login code expired. Start the login again.');
+}
+
+/**
+ * Lists the accounts whose repositories the token can browse: the token holder followed by their organizations.
+ */
+export async function fetchAccounts(conn: GitConnection): Promise<GitAccount[]> {
+    const [login, orgs] = await Promise.all([
+        fetchAuthenticatedUser(conn),
+        apiFetchAllPages<any>(conn, '/user/orgs?per_page=100', 'Failed to fetch organizations'),
+    ]);
+    return [
+        { login, isOrganization: false },
+        ...orgs.map(org => ({ login: org.login, isOrganization: true })),
+    ];
+}
+
+const toRepoSummary = (repo: any): RepoSummary => ({
+    name: repo.name,
+    fullName: repo.full_name,
+    description: repo.description,
+    private: repo.private,
+    fork: repo.fork,
+    archived: repo.archived,
+    pushedAt: repo.pushed_at,
+    defaultBranch: repo.default_branch,
+});
+
+export async function fetchUserRepos(conn: GitConnection, owner: string): Promise<RepoSummary[]> {
+    const ownerResponse = await apiFetch(conn, `/users/${encodeURIComponent(owner)}`);
+    if (!ownerResponse.ok) {
+        if (ownerResponse.status === 401) throw new Error(`Invalid authentication token.`);
+        if (ownerResponse.status === 404) throw new Error(`User or organization '${owner}' not found.`);
+        throw new Error(`Failed to fetch repositories for '${owner}': ${ownerResponse.statusText}`);
+    }
+    const ownerData = await ownerResponse.json();
+    const errorContext = `Failed to fetch repositories for '${owner}'`;
+
+    let repos: any[];
+    if (ownerData.type === 'Organization') {
+        // Includes the private repositories of the organization that the token can see
+        repos = await apiFetchAllPages(conn, `/orgs/${owner}/repos?type=all&sort=pushed&per_page=100`, errorContext);
+    } else if (ownerData.login.toLowerCase() === (await fetchAuthenticatedUser(conn)).toLowerCase()) {
+        // Only /user/repos lists the token holder's private repositories
+        repos = await apiFetchAllPages(conn, `/user/repos?affiliation=owner&visibility=all&sort=pushed&per_page=100`, errorContext);
+    } else {
+        repos = await apiFetchAllPages(conn, `/users/${owner}/repos?type=owner&sort=pushed&per_page=100`, errorContext);
+    }
+    return repos.map(toRepoSummary);
 }
 
+export async function fetchRepoBranches(conn: GitConnection, owner: string, repo: string): Promise<BranchInfo[]> {
+    const data = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/branches?per_page=100`, `Failed to fetch branches for '${repo}'`);
+    return data.map(branch => ({
+        name: branch.name,
+        commitSha: branch.commit.sha,
+        protected: !!branch.protected,
+    }));
+}
 
-export async function fetchRepoContents(token: string, owner: string, repo: string): Promise<UploadedFile[]> {
-    const repoDetails = await getRepoDetails(owner, repo, token);
-    const defaultBranch = repoDetails.default_branch;
 
-    const branchResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/branches/${defaultBranch}`, {
-        headers: commonHeaders(token),
+/**
+ * Lists the files of a commit without their contents, which are downloaded on demand with fetchFileContents.
+ */
+export async function fetchCommitFiles(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    commitSha: string,
+    onProgress?: (progress: FetchProgress) => void
+): Promise<UploadedFile[]> {
+    let treesFetched = 0;
+    const entries = await fetchTreeEntries(conn, owner, repo, commitSha, '', () => {
+        treesFetched++;
+        onProgress?.({ label: 'Listed folders', completed: treesFetched });
     });
+    // Submodules are kept as read-only entries, so they are visible and never mistaken for deleted paths
+    const submodules = entries
+        .filter(entry => entry.type === 'commit')
+        .map(entry => submoduleToUploadedFile(entry.path, entry.sha));
+    const blobs = entries
+        .filter(entry => entry.type === 'blob') // filter out folders
+        .map((entry): UploadedFile => ({
+            name: entry.path,
+            content: '',
+            type: guessFileType(entry.path).type,
+            mode: entry.mode,
+            sha: entry.sha,
+            size: entry.size,
+            // Empty files have nothing to download
+            isLoaded: entry.size === 0,
+        }));
+    return [...blobs, ...submodules];
+}
+
+export async function fetchRepoContents(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    branch?: string,
+    onProgress?: (progress: FetchProgress) => void
+): Promise<RepoSnapshot> {
+    const repoDetails = await getRepoDetails(owner, repo, conn);
+    const defaultBranch: string = repoDetails.default_branch;
+    const targetBranch = branch || defaultBranch;
+
+    const branchResponse = await apiFetch(conn, `/repos/${owner}/${repo}/branches/${encodeURIComponent(targetBranch)}`);
     if (!branchResponse.ok) throw new Error(`Failed to fetch branch details: ${branchResponse.statusText}`);
     const branchData = await branchResponse.json();
     const lastCommitSha = branchData.commit.sha;
 
-    const treeResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${lastCommitSha}?recursive=1`, {
-        headers: commonHeaders(token),
-    });
-    if (!treeResponse.ok) throw new Error(`Failed to fetch file tree: ${treeResponse.statusText}`);
-    const treeData = await treeResponse.json();
+    return {
+        files: await fetchCommitFiles(conn, owner, repo, lastCommitSha, onProgress),
+        branch: targetBranch,
+        defaultBranch,
+        commitSha: lastCommitSha,
+    };
+}
 
-    if (treeData.truncated) {
-        throw new Error("Repository is too large and the file tree was truncated. This feature is not supported for very large repositories yet.");
+const HISTORY_PAGE_SIZE = 30;
+
+/**
+ * Lists one page of the commits reachable from a branch, newest first.
+ */
+export async function fetchCommitHistory(conn: GitConnection, owner: string, repo: string, branch: string, page: number): Promise<CommitHistoryPage> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/commits?sha=${encodeURIComponent(branch)}&per_page=${HISTORY_PAGE_SIZE}&page=${page}`);
+    if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(`Failed to fetch commit history: ${errorData.message || response.statusText}`);
     }
-    
-    const filePromises = treeData.tree
-        .filter((item: any) => item.type === 'blob' && item.size > 0) // filter out empty files and folders
-        .map(async (file: any) => {
-            const blobResponse = await fetch(file.url, { headers: commonHeaders(token) });
+    const data: any[] = await response.json();
+    return {
+        commits: data.map(item => ({
+            sha: item.sha,
+            message: item.commit.message,
+            authorName: item.commit.author?.name ?? item.author?.login ?? 'unknown',
+            authorDate: item.commit.author?.date ?? item.commit.committer?.date,
+            url: item.html_url,
+        })),
+        hasMore: /rel="next"/.test(response.headers.get('Link') ?? ''),
+    };
+}
+
+/**
+ * Downloads the content of files listed by fetchRepoContents.
+ * @returns The loaded files. Files whose blob could not be fetched are left out.
+ */
+export async function fetchFileContents(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    files: UploadedFile[],
+    onProgress?: (progress: FetchProgress) => void
+): Promise<UploadedFile[]> {
+    let completed = 0;
+    const reportFetched = () => {
+        completed++;
+        onProgress?.({ label: 'Fetched files', completed, total: files.length });
+    };
+
+    // Requests are queued by the shared client, so firing them together stays within its concurrency limit
+    const results = await Promise.all(files.map(async (file): Promise<UploadedFile | null> => {
+        try {
+            if (!file.sha) return null;
+            // A submodule's SHA names a commit in another repository, not a blob
+            if (file.isSubmodule) return file;
+            const blobResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/blobs/${file.sha}`);
             if (!blobResponse.ok) {
-                console.warn(`Could not fetch blob for ${file.path}`);
+                console.warn(`Could not fetch blob for ${file.name}`);
                 return null;
             }
             const blobData = await blobResponse.json();
+            return { ...blobToUploadedFile(file.name, blobData.content, file.mode, file.sha), size: file.size };
+        } finally {
+            reportFetched();
+        }
+    }));
+    return results.filter((file): file is UploadedFile => file !== null);
+}
 
-            // A simple check for text vs binary based on common image/font extensions
-            const isBinary = /\.(png|jpg|jpeg|gif|webp|ico|woff|woff2|eot|ttf)$/i.test(file.path);
-            
-            let content: string;
-            let type: string;
-
-            if (isBinary) {
-                 // For binary files, create a data URL
-                 const ext = file.path.split('.').pop()?.toLowerCase();
-                 const mimeType = ext === 'png' ? 'image/png'
-                                : (ext === 'jpg' || ext === 'jpeg') ? 'image/jpeg'
-                                : ext === 'gif' ? 'image/gif'
-                                : ext === 'webp' ? 'image/webp'
-                                : 'application/octet-stream';
-                 content = `data:${mimeType};base64,${blobData.content}`;
-                 type = mimeType;
-            } else {
-                 content = decodeBase64(blobData.content);
-                 // Crude mime-type detection based on extension for text files
-                 const ext = file.path.split('.').pop()?.toLowerCase();
-                 type = ext === 'js' || ext === 'jsx' ? 'application/javascript'
-                      : ext === 'ts' || ext === 'tsx' ? 'application/typescript'
-                      : ext === 'html' ? 'text/html'
-                      : ext === 'css' ? 'text/css'
-                      : ext === 'json' ? 'application/json'
-                      : ext === 'svg' ? 'image/svg+xml'
-                      : 'text/plain';
-            }
+/**
+ * Checks whether a branch has advanced past the commit its files were fetched from.
+ * @returns The new head and the paths changed since the fetched commit, or null if the branch hasn't moved.
+ */
+export async function checkRemoteDrift(conn: GitConnection, owner: string, repo: string, branch: string, fetchedSha: string): Promise<RemoteDrift | null> {
+    const refResponse = await apiFetch(conn, `/repos/${owner}/${repo}/${branchRefPath(branch)}`);
+    if (!refResponse.ok) throw new Error(`Failed to get ref for branch ${branch}`);
+    const headSha: string = (await refResponse.json()).object.sha;
+    if (headSha === fetchedSha) return null;
 
-            return {
-                name: file.path,
-                content,
-                type,
-            } as UploadedFile;
-        });
+    const compareResponse = await apiFetch(conn, `/repos/${owner}/${repo}/compare/${fetchedSha}...${headSha}`);
+    if (!compareResponse.ok) throw new Error(`Failed to compare ${branch} with the fetched commit: ${compareResponse.statusText}`);
+    const compareData = await compareResponse.json();
+    if (compareData.status !== 'ahead') {
+        throw new Error(`Branch ${branch} was rewritten since it was fetched (status: ${compareData.status}). Please fetch it again.`);
+    }
 
-    const results = await Promise.all(filePromises);
-    return results.filter((file): file is UploadedFile => file !== null);
+    const files: any[] = compareData.files ?? [];
+    // The comparison lists at most 300 files; beyond that, the full trees of both commits are compared instead
+    if (files.length >= MAX_COMPARE_FILES) {
+        return { headSha, changedPaths: await fetchChangedPathsBetween(conn, owner, repo, fetchedSha, headSha) };
+    }
+    const changedPaths = new Set<string>();
+    for (const file of files) {
+        changedPaths.add(file.filename);
+        if (file.previous_filename) changedPaths.add(file.previous_filename);
+    }
+    return { headSha, changedPaths: Array.from(changedPaths) };
+}
+
+// Lists the files and submodules that differ between two commits, by their tree entries
+async function fetchChangedPathsBetween(conn: GitConnection, owner: string, repo: string, baseSha: string, headSha: string): Promise<string[]> {
+    const [baseEntries, headEntries] = await Promise.all([
+        fetchTreeEntries(conn, owner, repo, baseSha),
+        fetchTreeEntries(conn, owner, repo, headSha),
+    ]);
+    const describe = (entry: TreeEntry) => `${entry.mode} ${entry.sha}`;
+    const toMap = (entries: TreeEntry[]) => new Map(entries.filter(entry => entry.type !== 'tree').map(entry => [entry.path, describe(entry)]));
+    const baseMap = toMap(baseEntries);
+    const headMap = toMap(headEntries);
+    const changedPaths = new Set<string>();
+    for (const [path, entry] of headMap) {
+        if (baseMap.get(path) !== entry) changedPaths.add(path);
+    }
+    for (const path of baseMap.keys()) {
+        if (!headMap.has(path)) changedPaths.add(path);
+    }
+    return Array.from(changedPaths);
+}
+
+/**
+ * Fetches a single file as it exists at the given ref.
+ * @returns The file, or null if it doesn't exist at that ref.
+ */
+export async function fetchFileAtRef(conn: GitConnection, owner: string, repo: string, path: string, ref: string): Promise<UploadedFile | null> {
+    const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/contents/${encodedPath}?ref=${encodeURIComponent(ref)}`);
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to fetch ${path} at ${ref.slice(0, 7)}: ${response.statusText}`);
+    const data = await response.json();
+    if (data.type === 'submodule') return submoduleToUploadedFile(path, data.sha);
+    if (data.type !== 'file') return null;
+
+    let base64Content: string = data.content;
+    // The contents API omits the content of files over 1 MB; fall back to the blob API
+    if (!base64Content && data.size > 0) {
+        const blobResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/blobs/${data.sha}`);
+        if (!blobResponse.ok) throw new Error(`Failed to fetch blob for ${path}: ${blobResponse.statusText}`);
+        base64Content = (await blobResponse.json()).content;
+    }
+    return blobToUploadedFile(path, base64Content ?? '', undefined, data.sha);
+}
+
+export async function createBranch(conn: GitConnection, owner: string, repo: string, branchName: string, fromSha: string): Promise<void> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/git/refs`, {
+        method: 'POST',
+        body: JSON.stringify({ ref: `refs/heads/${branchName}`, sha: fromSha }),
+    });
+    if (!response.ok) {
+        if (response.status === 422) throw new Error(`Branch '${branchName}' already exists or is not a valid branch name.`);
+        throw new Error(`Failed to create branch '${branchName}': ${await response.text()}`);
+    }
 }
 
 export async function commitChangesToRepo(
-    token: string,
+    conn: GitConnection,
     owner: string,
     repo: string,
+    branch: string,
+    parentCommitSha: string,
+    originalFiles: UploadedFile[],
     modifiedFiles: UploadedFile[],
-    commitMessage: string
-): Promise<string> {
-    const repoDetails = await getRepoDetails(owner, repo, token);
-    const defaultBranch = repoDetails.default_branch;
-    
-    // 1. Get latest commit SHA to use as parent
-    const branchResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/refs/heads/${defaultBranch}`, {
-        headers: commonHeaders(token),
-    });
-    if (!branchResponse.ok) throw new Error(`Failed to get ref for branch ${defaultBranch}`);
-    const refData = await branchResponse.json();
-    const parentCommitSha = refData.object.sha;
-
-    // 2. Create blobs for all files that will be in the new commit
-    const treeItems = await Promise.all(modifiedFiles.map(async file => {
-        let content: string;
-        let encoding: 'utf-8' | 'base64' = 'utf-8';
-
-        if (file.type.startsWith('image/') && file.content.startsWith('data:')) {
-            content = file.content.split(',')[1];
-            encoding = 'base64';
-        } else {
-            content = file.content;
-        }
-        
-        const blobResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/blobs`, {
+    commit: CommitDetails
+): Promise<CommitResult> {
+    // 1. Resolve the tree of the commit the changes are based on. This is the fetched commit,
+    // or the current head when the caller has already reconciled remote changes.
+    const parentCommitResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/commits/${parentCommitSha}`);
+    if (!parentCommitResponse.ok) throw new Error(`Failed to get commit ${parentCommitSha}: ${parentCommitResponse.statusText}`);
+    const baseTreeSha = (await parentCommitResponse.json()).tree.sha;
+
+    // 2. Work out what actually changed relative to the fetched files
+    const originalMap = new Map(originalFiles.map(f => [f.name, f]));
+    const { changed: changedFiles, removed: removedFiles } = getChangedFiles(originalFiles, modifiedFiles);
+
+    if (changedFiles.length === 0 && removedFiles.length === 0) {
+        throw new Error('There are no changes to commit.');
+    }
+
+    // Line endings are written as the committed .gitattributes say, like git does on commit
+    const attributeRules = parseGitAttributes(modifiedFiles);
+
+    // 3. Create blobs only for new or changed files, keeping each path's original mode
+    const changedItems = await Promise.all(changedFiles.map(async file => {
+        const blobResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/blobs`, {
             method: 'POST',
-            headers: { ...commonHeaders(token), 'Content-Type': 'application/json' },
-            body: JSON.stringify({ content, encoding }),
-        });
+            body: JSON.stringify({ content: encodeBase64(file, attributeRules), encoding: 'base64' }),
+        }, { idempotent: true });
         if (!blobResponse.ok) throw new Error(`Failed to create blob for ${file.name}: ${await blobResponse.text()}`);
         const blobData = await blobResponse.json();
 
         return {
             path: file.name,
-            mode: '100644', // file
+            mode: originalMap.get(file.name)?.mode ?? file.mode ?? '100644',
             type: 'blob',
-            sha: blobData.sha,
+            sha: blobData.sha as string | null,
         };
     }));
 
-    // 3. Create a new tree object with the complete file list
-    const treeResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees`, {
+    // A null SHA removes the path from the base tree
+    const removedItems = removedFiles.map(file => ({
+        path: file.name,
+        mode: file.mode ?? '100644',
+        type: 'blob',
+        sha: null,
+    }));
+
+    // 4. Create a new tree on top of the parent's tree; untouched paths are inherited as-is
+    const treeResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/trees`, {
         method: 'POST',
-        headers: { ...commonHeaders(token), 'Content-Type': 'application/json' },
-        body: JSON.stringify({ tree: treeItems }),
-    });
+        body: JSON.stringify({ base_tree: baseTreeSha, tree: [...changedItems, ...removedItems] }),
+    }, { idempotent: true });
     if (!treeResponse.ok) throw new Error(`Failed to create tree: ${await treeResponse.text()}`);
     const newTreeData = await treeResponse.json();
 
-    // 4. Create a new commit
-    const commitResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/commits`, {
+    // 5. Create a new commit
+    const commitResponse = await apiFetch(conn, `/repos/${owner}/${repo}/git/commits`, {
         method: 'POST',
-        headers: { ...commonHeaders(token), 'Content-Type': 'application/json' },
         body: JSON.stringify({
-            message: commitMessage,
+            message: formatCommitMessage(commit),
             tree: newTreeData.sha,
             parents: [parentCommitSha],
+            // Without an author GitHub attributes the commit to the token holder
+            ...(commit.author && { author: commit.author }),
         }),
-    });
+    }, { idempotent: true });
     if (!commitResponse.ok) throw new Error(`Failed to create commit: ${await commitResponse.text()}`);
     const newCommitData = await commitResponse.json();
 
-    // 5. Update the branch reference
-    const updateRefResponse = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/refs/heads/${defaultBranch}`, {
+    // 6. Update the branch reference. This is not forced, so it fails if the branch moved past the parent.
+    const updateRefResponse = await apiFetch(conn, `/repos/${owner}/${repo}/${branchRefPath(branch)}`, {
         method: 'PATCH',
-        headers: { ...commonHeaders(token), 'Content-Type': 'application/json' },
         body: JSON.stringify({ sha: newCommitData.sha }),
     });
     if (!updateRefResponse.ok) {
+        if (updateRefResponse.status === 422) {
+            throw new Error(`Branch ${branch} has moved since its changes were checked. Please commit again to reconcile them.`);
+        }
          throw new Error(`Failed to update branch ref: ${await updateRefResponse.text()}`);
     }
     
-    return newCommitData.html_url; // Return URL of the new commit
-}
\ No newline at end of file
+    return { sha: newCommitData.sha, url: newCommitData.html_url };
+}
+
+const toPullRequestSummary = (pull: any): PullRequestSummary => ({
+    number: pull.number,
+    title: pull.title,
+    author: pull.user?.login ?? 'unknown',
+    headBranch: pull.head.ref,
+    baseBranch: pull.base.ref,
+    headSha: pull.head.sha,
+    url: pull.html_url,
+    isFromFork: pull.head.repo?.full_name !== pull.base.repo?.full_name,
+    updatedAt: pull.updated_at,
+});
+
+export async function fetchOpenPullRequests(conn: GitConnection, owner: string, repo: string): Promise<PullRequestSummary[]> {
+    const pulls = await apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls?state=open&sort=updated&direction=desc&per_page=100`, 'Failed to list pull requests');
+    return pulls.map(toPullRequestSummary);
+}
+
+/**
+ * Finds the merge base of a pull request, which is what GitHub diffs the PR against.
+ * The base branch tip can't be used directly, since it may have moved on since the branch was created.
+ */
+export async function fetchPullRequestMergeBase(conn: GitConnection, owner: string, repo: string, pullNumber: number): Promise<string> {
+    const pullResponse = await apiFetch(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}`);
+    if (!pullResponse.ok) throw new Error(`Failed to fetch pull request #${pullNumber}: ${pullResponse.statusText}`);
+    const pull = await pullResponse.json();
+
+    const compareResponse = await apiFetch(conn, `/repos/${owner}/${repo}/compare/${pull.base.sha}...${pull.head.sha}`);
+    if (!compareResponse.ok) throw new Error(`Failed to compare pull request #${pullNumber} with its base: ${compareResponse.statusText}`);
+    return (await compareResponse.json()).merge_base_commit.sha;
+}
+
+/**
+ * Gathers line comments and review summaries of a pull request, oldest first.
+ */
+export async function fetchReviewComments(conn: GitConnection, owner: string, repo: string, pullNumber: number): Promise<ReviewComment[]> {
+    const [lineComments, reviews] = await Promise.all([
+        apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}/comments?per_page=100`, 'Failed to fetch review comments'),
+        apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/pulls/${pullNumber}/reviews?per_page=100`, 'Failed to fetch reviews'),
+    ]);
+    const comments: ReviewComment[] = [
+        ...reviews
+            .filter(review => review.body?.trim())
+            .map(review => ({ author: review.user?.login ?? 'unknown', body: review.body, path: null, line: null, createdAt: review.submitted_at })),
+        ...lineComments.map(comment => ({
+            author: comment.user?.login ?? 'unknown',
+            body: comment.body,
+            path: comment.path,
+            line: comment.line ?? comment.original_line ?? null,
+            createdAt: comment.created_at,
+        })),
+    ];
+    return comments.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+const toIssueSummary = (issue: any): IssueSummary => ({
+    number: issue.number,
+    title: issue.title,
+    author: issue.user?.login ?? 'unknown',
+    url: issue.html_url,
+    commentsCount: issue.comments ?? 0,
+    updatedAt: issue.updated_at,
+});
+
+/**
+ * Lists the most recently updated open issues. Only the first page is fetched, as the picker is for recent work.
+ */
+export async function fetchOpenIssues(conn: GitConnection, owner: string, repo: string): Promise<IssueSummary[]> {
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/issues?state=open&sort=updated&direction=desc&per_page=100`);
+    if (!response.ok) throw new Error(`Failed to list issues: ${response.statusText}`);
+    const issues: any[] = await response.json();
+    return issues
+        // The issues endpoint also lists pull requests
+        .filter(issue => !issue.pull_request)
+        .map(toIssueSummary);
+}
+
+export async function fetchIssueThread(conn: GitConnection, owner: string, repo: string, issueNumber: number): Promise<IssueThread> {
+    const [response, comments] = await Promise.all([
+        apiFetch(conn, `/repos/${owner}/${repo}/issues/${issueNumber}`),
+        apiFetchAllPages<any>(conn, `/repos/${owner}/${repo}/issues/${issueNumber}/comments?per_page=100`, `Failed to fetch comments of issue #${issueNumber}`),
+    ]);
+    if (!response.ok) throw new Error(`Failed to fetch issue #${issueNumber}: ${response.statusText}`);
+    const issue = await response.json();
+    return {
+        ...toIssueSummary(issue),
+        body: issue.body ?? '',
+        comments: comments.map(comment => ({
+            author: comment.user?.login ?? 'unknown',
+            body: comment.body ?? '',
+            createdAt: comment.created_at,
+        })),
+    };
+}
+
+export async function createPullRequest(
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    head: string,
+    base: string,
+    title: string,
+    body: string
+): Promise<PullRequestResult> {
+    // Reuse an already open PR for this branch instead of failing with a 422
+    const existingResponse = await apiFetch(conn, `/repos/${owner}/${repo}/pulls?state=open&head=${encodeURIComponent(`${owner}:${head}`)}&base=${encodeURIComponent(base)}`);
+    if (existingResponse.ok) {
+        const existing = await existingResponse.json();
+        if (existing.length > 0) {
+            return { number: existing[0].number, url: existing[0].html_url, isNew: false };
+        }
+    }
+
+    const response = await apiFetch(conn, `/repos/${owner}/${repo}/pulls`, {
+        method: 'POST',
+        body: JSON.stringify({ title, body, head, base }),
+    });
+    if (!response.ok) throw new Error(`Failed to open pull request: ${await response.text()}`);
+    const prData = await response.json();
+    return { number: prData.number, url: prData.html_url, isNew: true };
+}
+
+// Device flow login needs an OAuth app, so it's only offered when one is configured
+const createDeviceLogin = (clientId: string | undefined): GitProvider['deviceLogin'] => clientId ? {
+    start: host => startDeviceLogin(clientId, host),
+    poll: (host, prompt, signal) => pollDeviceLogin(clientId, host, prompt, signal),
+} : undefined;
+
+export const githubProvider: GitProvider = {
+    id: 'github',
+    label: 'GitHub',
+    defaultHost: 'https://github.com',
+    // github.com serves its API from a separate host; GitHub Enterprise Server serves it under /api/v3
+    resolveApiBase: host => {
+        const normalized = host.trim().replace(/\/+$/, '');
+        if (!normalized || /^https?:\/\/(www\.)?github\.com$/i.test(normalized)) return 'https://api.github.com';
+        return /\/api\/v3$/.test(normalized) ? normalized : `${normalized}/api/v3`;
+    },
+    tokenHelp: "Use a classic token with the 'repo' scope (add 'read:org' to list organizations), or a fine-grained token with read and write access to Contents, Pull requests and Issues.",
+    requiredScopes: ['repo'],
+    deviceLogin: createDeviceLogin(OAUTH_CLIENT_ID),
+    fetchTokenInfo,
+    fetchAccounts,
+    fetchUserRepos,
+    fetchRepoBranches,
+    fetchRepoContents,
+    fetchFileContents,
+    fetchCommitHistory,
+    fetchCommitFiles,
+    checkRemoteDrift,
+    fetchFileAtRef,
+    createBranch,
+    commitChanges: commitChangesToRepo,
+    fetchOpenPullRequests,
+    fetchPullRequestMergeBase,
+    fetchReviewComments,
+    fetchOpenIssues,
+    fetchIssueThread,
+    createPullRequest,
+};
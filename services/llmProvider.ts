@@ -0,0 +1,8 @@
+import { LlmProvider, LlmProviderId } from '../types';
+import { geminiProvider } from './geminiService';
+import { openAiProvider } from './openAiService';
+
+export const LLM_PROVIDERS: LlmProvider[] = [geminiProvider, openAiProvider];
+
+export const getLlmProvider = (id: LlmProviderId): LlmProvider =>
+    LLM_PROVIDERS.find(provider => provider.id === id) ?? geminiProvider;
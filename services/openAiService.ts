@@ -0,0 +1,111 @@
+import { LlmConnection, LlmProvider, LlmRequest, ModelOption } from "../types";
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+const resolveBaseUrl = (conn: LlmConnection) => (conn.baseUrl.trim() || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+// Local servers such as llama.cpp and Ollama accept requests without a key
+const headers = (conn: LlmConnection): Record<string, string> => ({
+  'Content-Type': 'application/json',
+  ...(conn.apiKey && { 'Authorization': `Bearer ${conn.apiKey}` }),
+});
+
+const readError = async (response: Response): Promise<string> => {
+  const data = await response.json().catch(() => ({}));
+  return data.error?.message || data.error || response.statusText || `HTTP ${response.status}`;
+};
+
+const postChatCompletion = async (conn: LlmConnection, request: LlmRequest, stream: boolean): Promise<Response> => {
+  const response = await fetch(`${resolveBaseUrl(conn)}/chat/completions`, {
+    method: 'POST',
+    headers: headers(conn),
+    body: JSON.stringify({
+      model: request.model,
+      messages: [{ role: 'user', content: request.prompt }],
+      temperature: request.temperature,
+      stream,
+      ...(request.schema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.schema } } }
+        : request.json && { response_format: { type: 'json_object' } }),
+    }),
+    signal: request.signal,
+  });
+  if (!response.ok) {
+    throw new Error(`The model endpoint returned an error: ${await readError(response)}`);
+  }
+  return response;
+};
+
+async function generateText(conn: LlmConnection, request: LlmRequest): Promise<string> {
+  const response = await postChatCompletion(conn, request, false);
+  const data = await response.json();
+  return data.choices?.[0]?.message?.content ?? '';
+}
+
+// Reads the text delta of one server-sent event line. Comments, keep-alives and other lines that aren't JSON events are skipped.
+const readDelta = (line: string): string | null => {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('data:')) return null;
+  const data = trimmed.replace(/^data:\s*/, '');
+  if (data === '[DONE]') return null;
+  let event: any;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    console.warn('Skipping unreadable stream event:', data);
+    return null;
+  }
+  if (event.error) {
+    throw new Error(`The model endpoint returned an error: ${event.error.message ?? JSON.stringify(event.error)}`);
+  }
+  return event.choices?.[0]?.delta?.content ?? null;
+};
+
+/**
+ * Streams a chat completion, reading the text deltas from its server-sent events.
+ */
+async function* streamText(conn: LlmConnection, request: LlmRequest): AsyncGenerator<string> {
+  const response = await postChatCompletion(conn, request, true);
+  const reader = response.body!.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      // The last event may end without a newline
+      const lines = (buffer + (value ?? '')).split('\n');
+      buffer = done ? '' : lines.pop() ?? '';
+      for (const line of lines) {
+        const delta = readDelta(line);
+        if (delta) yield delta;
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+async function fetchModels(conn: LlmConnection): Promise<ModelOption[]> {
+  const response = await fetch(`${resolveBaseUrl(conn)}/models`, { headers: headers(conn) });
+  if (!response.ok) {
+    throw new Error(`Failed to list models: ${await readError(response)}`);
+  }
+  const data = await response.json();
+  return (data.data ?? [])
+    // Not part of the OpenAI schema, but reported by OpenRouter and vLLM respectively
+    .map((model: any) => ({ id: model.id, label: model.id, contextWindow: model.context_length ?? model.max_model_len }))
+    .sort((a: ModelOption, b: ModelOption) => a.id.localeCompare(b.id));
+}
+
+export const openAiProvider: LlmProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  defaultBaseUrl: DEFAULT_BASE_URL,
+  requiresApiKey: false,
+  defaultModels: [
+    { id: 'gpt-4o-mini', label: 'GPT-4o mini (Fast)', contextWindow: 128_000 },
+    { id: 'gpt-4o', label: 'GPT-4o (Advanced)', contextWindow: 128_000 },
+  ],
+  fetchModels,
+  generateText,
+  streamText,
+};
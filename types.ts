@@ -1,7 +1,21 @@
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252';
+
+export type LineEnding = 'lf' | 'crlf';
+
 export interface UploadedFile {
     name: string;
-    content: string; // text content or base64 data URL for images
+    content: string; // text content, or a base64 data URL when isBinary is set
     type: string; // MIME type
+    isBinary?: boolean; // Detected from the content; binary files are never decoded, edited or sent to the model
+    encoding?: TextEncoding; // Character encoding the text was decoded from; UTF-8 when unset
+    hasBom?: boolean; // Whether the original bytes started with a byte order mark
+    lineEnding?: LineEnding; // Uniform line ending of the original text; CRLF text is held with LF line endings. Unset for mixed endings, which are kept verbatim
+    mode?: string; // git file mode from the fetched tree, e.g. '100755' for executables
+    sha?: string; // git blob SHA of the fetched content; cleared once the content changes
+    size?: number; // Size in bytes as reported by the repository tree
+    isLoaded?: boolean; // false for repository files whose content hasn't been downloaded yet
+    isSubmodule?: boolean; // A submodule entry: sha is the commit it points at, and there is no content
+    lfsPointer?: { oid: string, size: number }; // Set when the content is a Git LFS pointer; the object itself isn't downloaded
 }
 
 export interface Deletion {
@@ -19,17 +33,355 @@ export interface Modification {
   after: string;
 }
 
+// Hunks of a unified diff of one file, each starting with an "@@ -start,count +start,count @@" header
+export interface Patch {
+  fileName: string;
+  diff: string;
+}
+
+// The complete new content of an existing file
+export interface Rewrite {
+  fileName: string;
+  code: string;
+}
+
+// How the model writes changes to existing files: snippet anchors ("modify" and "delete"), unified diffs or whole-file rewrites
+export type EditFormat = 'snippet' | 'diff' | 'rewrite';
+
+export type InFileOperation = Modification | Deletion | Patch | Rewrite;
+
 export interface ModificationPlan {
   delete?: Deletion[];
   modify?: Modification[];
+  patch?: Patch[];
+  rewrite?: Rewrite[];
   newFiles?: Array<{ fileName: string, code: string }>;
   deleteFiles?: string[];
   notes?: string;
 }
 
+// The subset of JSON Schema that describes model responses
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  minLength?: number;
+}
+
+export interface FailedOperation {
+  operation: InFileOperation;
+  reason: string;
+  surroundingContent: string | null; // The file's content around the intended location; null when the file can't be edited at all
+}
+
+// What became of the in-file operations of a plan
+export interface ApplyTally {
+  applied: number; // Applied as planned
+  repaired: number; // Applied after the model re-anchored them
+  abandoned: number; // Still failing once the repair attempts ran out
+}
+
+// Files proposed by the model for a change, before any plan is made
+export interface FileSelection {
+  edit: string[];
+  read: string[]; // Context worth loading in full
+  notes?: string;
+}
+
+export interface ConversationTurn {
+  instruction: string;
+  notes?: string; // The model's notes on the plan it answered with
+}
+
+// A pending plan sent back to the model together with a follow-up instruction
+export interface PlanRefinement {
+  thread: ConversationTurn[]; // Earlier instructions, oldest first
+  plan: ModificationPlan;
+  modifiedFiles: UploadedFile[]; // The files as changed by the plan
+}
+
 export interface SavedVersion {
   versionNumber: number;
   files: UploadedFile[];
 }
 
-export type ModelOption = 'flash' | 'pro';
+export interface ModelOption {
+  id: string; // Model name sent to the provider, e.g. 'gemini-2.5-flash' or 'llama3.1:8b'
+  label: string; // Shown in the model selector
+  contextWindow?: number; // Input token limit; a conservative default is assumed when unknown
+}
+
+export interface ContextBudget {
+  estimatedTokens: number; // Approximate size of the prompt
+  tokenLimit: number; // Tokens the prompt may use, leaving room for the response
+  truncated: string[]; // Context files of which only the beginning is sent
+  summarized: string[]; // Context files sent as an outline of their declarations
+  excluded: string[]; // Context files listed by path only
+}
+
+export type LlmProviderId = 'gemini' | 'openai';
+
+export interface LlmConnection {
+  provider: LlmProviderId;
+  baseUrl: string; // Empty for the provider's default endpoint
+  apiKey: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  prompt: string;
+  temperature: number;
+  json?: boolean; // Asks for a JSON object as the whole response
+  schema?: JsonSchema; // Constrains the JSON response, where the provider supports it; implies json
+  signal?: AbortSignal; // Cancels the request, including a response that is still streaming
+}
+
+/**
+ * A language model API that prompts are sent to. Every call takes the connection (endpoint and key).
+ */
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  // Offered until the endpoint's own list is fetched
+  defaultModels: ModelOption[];
+  fetchModels: (conn: LlmConnection) => Promise<ModelOption[]>;
+  generateText: (conn: LlmConnection, request: LlmRequest) => Promise<string>;
+  streamText: (conn: LlmConnection, request: LlmRequest) => AsyncGenerator<string>;
+}
+
+// What the AI settings panel stores
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string; // May refer to {{file}} and {{selection}}
+}
+
+export interface LlmSettings {
+  connection: LlmConnection;
+  models: ModelOption[];
+  maxRepairAttempts: number; // How often operations that don't match their file are sent back to the model
+}
+
+
+export interface BranchInfo {
+  name: string;
+  commitSha: string;
+  protected: boolean;
+}
+
+export interface RepoSnapshot {
+  files: UploadedFile[];
+  branch: string;
+  defaultBranch: string;
+  commitSha: string; // The commit the files were fetched from
+}
+
+export interface CommitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface CommitDetails {
+  message: string; // Subject line, blank line, body
+  author?: CommitAuthor; // Defaults to the token holder
+  trailers?: string[]; // e.g. 'Co-authored-by: Name <email>', appended to the message
+}
+
+export interface CommitResult {
+  sha: string;
+  url: string;
+}
+
+export interface PullRequestResult {
+  number: number;
+  url: string;
+  isNew: boolean; // false when an open PR for the branch already existed
+}
+
+export interface CommitOptions {
+  createBranch: boolean;
+  newBranchName: string;
+  openPullRequest: boolean;
+}
+
+export interface RemoteDrift {
+  headSha: string;
+  changedPaths: string[]; // Paths changed on the remote since the fetched commit
+}
+
+export interface MergeConflict {
+  path: string;
+  base: UploadedFile | null; // As fetched
+  ours: UploadedFile | null; // With the pending modifications; null when we delete the file
+  theirs: UploadedFile | null; // At the remote head; null when the remote deleted the file
+  resolution: string | null; // Content to commit; null deletes the file
+}
+
+export interface RateLimitInfo {
+  limit: number;
+  remaining: number;
+  resetAt: number; // Epoch milliseconds
+}
+
+export interface FetchProgress {
+  label: string; // e.g. 'Fetched files'
+  completed: number;
+  total?: number; // Unknown while walking a repository tree
+}
+
+export interface RepoSummary {
+  name: string;
+  fullName: string; // owner/name
+  description: string | null;
+  private: boolean;
+  fork: boolean;
+  archived: boolean;
+  pushedAt: string | null; // ISO timestamp of the last push
+  defaultBranch: string;
+}
+
+export interface GitAccount {
+  login: string;
+  isOrganization: boolean;
+}
+
+export interface CommitSummary {
+  sha: string;
+  message: string;
+  authorName: string;
+  authorDate: string; // ISO timestamp
+  url: string;
+}
+
+export interface CommitHistoryPage {
+  commits: CommitSummary[]; // Newest first
+  hasMore: boolean;
+}
+
+export interface CommitComparison {
+  baseSha: string; // The older commit
+  headSha: string;
+  label?: string; // Shown instead of the SHAs, e.g. 'Pull request #12'
+  originalFiles: UploadedFile[]; // Changed files as of base
+  modifiedFiles: UploadedFile[]; // Changed files as of head
+}
+
+export interface PullRequestSummary {
+  number: number;
+  title: string;
+  author: string;
+  headBranch: string;
+  baseBranch: string;
+  headSha: string;
+  url: string;
+  isFromFork: boolean; // The head branch lives in another repository and can't be committed to
+  updatedAt: string; // ISO timestamp
+}
+
+export interface ReviewComment {
+  author: string;
+  body: string;
+  path: string | null; // null for comments on the pull request as a whole
+  line: number | null;
+  createdAt: string; // ISO timestamp
+}
+
+export interface IssueSummary {
+  number: number;
+  title: string;
+  author: string;
+  url: string;
+  commentsCount: number;
+  updatedAt: string; // ISO timestamp
+}
+
+export interface IssueComment {
+  author: string;
+  body: string;
+  createdAt: string; // ISO timestamp
+}
+
+export interface IssueThread extends IssueSummary {
+  body: string;
+  comments: IssueComment[]; // Oldest first
+}
+
+export type GitProviderId = 'github' | 'gitea';
+
+export interface GitConnection {
+  provider: GitProviderId;
+  baseUrl: string; // API root, e.g. 'https://api.github.com' or 'https://gitea.example.com/api/v1'
+  token: string;
+}
+
+export interface TokenInfo {
+  login: string;
+  scopes: string[] | null; // OAuth scopes of the token; null when the host doesn't report them (e.g. fine-grained tokens)
+  expiresAt: string | null; // ISO 8601 timestamp; null when the token never expires or the expiry is unknown
+}
+
+// A pending OAuth device flow login: the user enters userCode at verificationUri while the app polls
+export interface DeviceLoginPrompt {
+  deviceCode: string;
+  userCode: string;
+  verificationUri: string;
+  expiresAt: number; // ms since epoch
+  interval: number; // Seconds to wait between polls
+}
+
+/**
+ * The operations the app needs from a git hosting service. Every call takes the connection
+ * (API base URL and token) followed by the repository owner and name.
+ */
+export interface GitProvider {
+  id: GitProviderId;
+  label: string;
+  defaultHost: string;
+  // Turns the host the user typed into the API root, e.g. 'https://git.example.com' -> 'https://git.example.com/api/v1'
+  resolveApiBase: (host: string) => string;
+  // Shown next to the token field: which kind of token to create and what access it needs
+  tokenHelp: string;
+  // Scopes a token must have, checked when the host reports the scopes of a token
+  requiredScopes: string[];
+  // Present only when an OAuth app is configured for the provider
+  deviceLogin?: {
+    start: (host: string) => Promise<DeviceLoginPrompt>;
+    // Resolves to the access token once the user has approved the login
+    poll: (host: string, prompt: DeviceLoginPrompt, signal: AbortSignal) => Promise<string>;
+  };
+
+  fetchTokenInfo: (conn: GitConnection) => Promise<TokenInfo>;
+  fetchAccounts: (conn: GitConnection) => Promise<GitAccount[]>;
+  fetchUserRepos: (conn: GitConnection, owner: string) => Promise<RepoSummary[]>;
+  fetchRepoBranches: (conn: GitConnection, owner: string, repo: string) => Promise<BranchInfo[]>;
+  // Lists the tree of a branch; file contents are left unloaded
+  fetchRepoContents: (conn: GitConnection, owner: string, repo: string, branch?: string, onProgress?: (progress: FetchProgress) => void) => Promise<RepoSnapshot>;
+  fetchFileContents: (conn: GitConnection, owner: string, repo: string, files: UploadedFile[], onProgress?: (progress: FetchProgress) => void) => Promise<UploadedFile[]>;
+  fetchCommitHistory: (conn: GitConnection, owner: string, repo: string, branch: string, page: number) => Promise<CommitHistoryPage>;
+  // Lists the tree of any commit; file contents are left unloaded
+  fetchCommitFiles: (conn: GitConnection, owner: string, repo: string, commitSha: string, onProgress?: (progress: FetchProgress) => void) => Promise<UploadedFile[]>;
+  checkRemoteDrift: (conn: GitConnection, owner: string, repo: string, branch: string, fetchedSha: string) => Promise<RemoteDrift | null>;
+  fetchFileAtRef: (conn: GitConnection, owner: string, repo: string, path: string, ref: string) => Promise<UploadedFile | null>;
+  createBranch: (conn: GitConnection, owner: string, repo: string, branchName: string, fromSha: string) => Promise<void>;
+  commitChanges: (
+    conn: GitConnection,
+    owner: string,
+    repo: string,
+    branch: string,
+    parentCommitSha: string,
+    originalFiles: UploadedFile[],
+    modifiedFiles: UploadedFile[],
+    commit: CommitDetails
+  ) => Promise<CommitResult>;
+  fetchOpenPullRequests: (conn: GitConnection, owner: string, repo: string) => Promise<PullRequestSummary[]>;
+  // The commit the pull request's changes are diffed against
+  fetchPullRequestMergeBase: (conn: GitConnection, owner: string, repo: string, pullNumber: number) => Promise<string>;
+  fetchReviewComments: (conn: GitConnection, owner: string, repo: string, pullNumber: number) => Promise<ReviewComment[]>;
+  fetchOpenIssues: (conn: GitConnection, owner: string, repo: string) => Promise<IssueSummary[]>;
+  fetchIssueThread: (conn: GitConnection, owner: string, repo: string, issueNumber: number) => Promise<IssueThread>;
+  createPullRequest: (conn: GitConnection, owner: string, repo: string, head: string, base: string, title: string, body: string) => Promise<PullRequestResult>;
+}
@@ -0,0 +1,251 @@
+import { LineEnding, TextEncoding, UploadedFile } from '../types';
+import { GitAttributeRule, getGitAttributes } from './gitattributes';
+
+// MIME types for common binary formats, used to label files that turn out to be binary
+const BINARY_MIME_TYPES: Record<string, string> = {
+    png: 'image/png',
+    jpg: 'image/jpeg',
+    jpeg: 'image/jpeg',
+    gif: 'image/gif',
+    webp: 'image/webp',
+    ico: 'image/x-icon',
+    bmp: 'image/bmp',
+    pdf: 'application/pdf',
+    wasm: 'application/wasm',
+    zip: 'application/zip',
+    gz: 'application/gzip',
+    mp3: 'audio/mpeg',
+    wav: 'audio/wav',
+    ogg: 'audio/ogg',
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    woff: 'font/woff',
+    woff2: 'font/woff2',
+    ttf: 'font/ttf',
+    otf: 'font/otf',
+};
+
+// Only this much of a file is scanned for null bytes, as git does
+const BINARY_SNIFF_LENGTH = 8000;
+
+// Control characters other than tab, line breaks, form feed and escape don't occur in legacy-encoded text
+const LEGACY_CONTROL_BYTES = /[\x00-\x08\x0E-\x1A\x1C-\x1F]/;
+
+/**
+ * Detects how text content is encoded from its byte order mark or, without one, by trying UTF-8
+ * and then windows-1252 (which browsers use for Latin-1 too).
+ * @returns The encoding, or null when the content is binary.
+ */
+export const detectTextEncoding = (bytes: Uint8Array): { encoding: TextEncoding, hasBom: boolean } | null => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'utf-8', hasBom: true };
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'utf-16le', hasBom: true };
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'utf-16be', hasBom: true };
+    if (bytes.subarray(0, BINARY_SNIFF_LENGTH).includes(0)) return null;
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+        return { encoding: 'utf-8', hasBom: false };
+    } catch {
+        const sample = String.fromCharCode(...bytes.subarray(0, BINARY_SNIFF_LENGTH));
+        return LEGACY_CONTROL_BYTES.test(sample) ? null : { encoding: 'windows-1252', hasBom: false };
+    }
+};
+
+/**
+ * Detects the line ending used throughout a text, or undefined when it has no line breaks or mixes them.
+ */
+export const detectLineEnding = (text: string): LineEnding | undefined => {
+    const crlfCount = text.split('\r\n').length - 1;
+    const lfCount = text.split('\n').length - 1;
+    if (lfCount === 0) return undefined;
+    if (crlfCount === 0) return 'lf';
+    return crlfCount === lfCount ? 'crlf' : undefined;
+};
+
+const LFS_POINTER_PREFIX = 'version https://git-lfs.github.com/spec/v1\n';
+// Pointer files are a few lines; git-lfs never writes one bigger than this
+const MAX_LFS_POINTER_SIZE = 1024;
+
+/**
+ * Parses the content of a Git LFS pointer file.
+ * @returns The object id and size, or null when the text isn't a pointer.
+ */
+export const parseLfsPointer = (text: string): { oid: string, size: number } | null => {
+    if (!text.startsWith(LFS_POINTER_PREFIX) || text.length > MAX_LFS_POINTER_SIZE) return null;
+    const oid = /^oid sha256:([0-9a-f]{64})$/m.exec(text)?.[1];
+    const size = /^size (\d+)$/m.exec(text)?.[1];
+    return oid && size ? { oid, size: parseInt(size, 10) } : null;
+};
+
+/**
+ * Whether a file holds text that can be shown to the model and edited. Binary files, Git LFS
+ * pointers and submodules are carried along untouched.
+ */
+export const isEditableText = (file: UploadedFile): boolean =>
+    !file.isBinary && !file.lfsPointer && !file.isSubmodule;
+
+// Guesses whether a path is binary and its MIME type from the file extension. Only used until the content is known.
+export const guessFileType = (path: string): { isBinary: boolean, type: string } => {
+    const ext = path.split('.').pop()?.toLowerCase() ?? '';
+    if (ext in BINARY_MIME_TYPES) {
+        return { isBinary: true, type: BINARY_MIME_TYPES[ext] };
+    }
+    // Crude mime-type detection based on extension for text files
+    const type = ext === 'js' || ext === 'jsx' ? 'application/javascript'
+               : ext === 'ts' || ext === 'tsx' ? 'application/typescript'
+               : ext === 'html' ? 'text/html'
+               : ext === 'css' ? 'text/css'
+               : ext === 'json' ? 'application/json'
+               : ext === 'svg' ? 'image/svg+xml'
+               : 'text/plain';
+    return { isBinary: false, type };
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+    return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binaryString = '';
+    // Chunked so large files don't overflow the argument list of String.fromCharCode
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binaryString += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binaryString);
+};
+
+/**
+ * Builds an UploadedFile from raw bytes. Binary content is kept untouched as a base64 data URL.
+ * Text is decoded from its detected encoding, with CRLF line endings held as LF so that edits
+ * and model output line up with it; encodeFile restores the original format.
+ */
+export const bytesToUploadedFile = (path: string, bytes: Uint8Array, mode?: string, sha?: string): UploadedFile => {
+    const guessed = guessFileType(path);
+    const detected = detectTextEncoding(bytes);
+    if (!detected) {
+        const type = guessed.isBinary ? guessed.type : 'application/octet-stream';
+        return { name: path, content: `data:${type};base64,${bytesToBase64(bytes)}`, type, isBinary: true, mode, sha };
+    }
+    // The decoder drops the byte order mark
+    const text = new TextDecoder(detected.encoding).decode(bytes);
+    const lfsPointer = parseLfsPointer(text);
+    if (lfsPointer) {
+        return { name: path, content: text, type: guessed.type, mode, sha, lfsPointer };
+    }
+    // Binary extensions with text content (e.g. a placeholder .png) are treated as text
+    const type = guessed.isBinary ? 'text/plain' : guessed.type;
+    const lineEnding = detectLineEnding(text);
+    return {
+        name: path,
+        content: lineEnding === 'crlf' ? text.replace(/\r\n/g, '\n') : text,
+        type,
+        mode,
+        sha,
+        ...(detected.encoding !== 'utf-8' && { encoding: detected.encoding }),
+        ...(detected.hasBom && { hasBom: true }),
+        ...(lineEnding && { lineEnding }),
+    };
+};
+
+/**
+ * Builds the entry of a submodule (a `commit` entry in a git tree). It has no content to download.
+ */
+export const submoduleToUploadedFile = (path: string, commitSha: string): UploadedFile => ({
+    name: path,
+    content: '',
+    type: 'application/x-git-submodule',
+    mode: '160000',
+    sha: commitSha,
+    isSubmodule: true,
+});
+
+// Converts a base64 blob from the API into an UploadedFile. The API wraps base64 content in newlines.
+export const blobToUploadedFile = (path: string, base64Content: string, mode?: string, sha?: string): UploadedFile =>
+    bytesToUploadedFile(path, base64ToBytes(base64Content.replace(/\s/g, '')), mode, sha);
+
+let windows1252Bytes: Map<string, number> | null = null;
+
+const encodeWindows1252 = (text: string, fileName: string): Uint8Array => {
+    if (!windows1252Bytes) {
+        // The decoder maps every byte to a distinct character, so inverting it gives the encoder
+        const decoded = new TextDecoder('windows-1252').decode(Uint8Array.from({ length: 256 }, (_, i) => i));
+        windows1252Bytes = new Map(Array.from(decoded, (char, byte) => [char, byte]));
+    }
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) {
+        const byte = windows1252Bytes.get(text[i]);
+        if (byte === undefined) {
+            throw new Error(`"${fileName}" is encoded as windows-1252, which can't represent the character '${text[i]}'.`);
+        }
+        bytes[i] = byte;
+    }
+    return bytes;
+};
+
+const encodeUtf16 = (text: string, littleEndian: boolean): Uint8Array => {
+    const bytes = new Uint8Array(text.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < text.length; i++) {
+        view.setUint16(i * 2, text.charCodeAt(i), littleEndian);
+    }
+    return bytes;
+};
+
+const BYTE_ORDER_MARKS: Record<TextEncoding, string> = {
+    'utf-8': '\uFEFF',
+    'utf-16le': '\uFEFF',
+    'utf-16be': '\uFEFF',
+    'windows-1252': '',
+};
+
+/**
+ * Picks the line ending a text file is written with, or undefined to write its content verbatim.
+ * Without a `text` attribute the file keeps its own line ending. With one, git stores LF in the
+ * repository and checks out with the `eol` attribute. Like git, `text=auto` alone doesn't
+ * renormalize a file that is already stored with CRLF, so an edit doesn't rewrite every line.
+ */
+const resolveLineEnding = (file: UploadedFile, target: 'repository' | 'workingTree', rules: GitAttributeRule[]): LineEnding | undefined => {
+    const { text, eol } = getGitAttributes(rules, file.name);
+    if (!text) return file.lineEnding === 'crlf' ? 'crlf' : undefined;
+    if (target === 'repository') return text === 'auto' && !eol && file.lineEnding === 'crlf' ? 'crlf' : 'lf';
+    return eol ?? (file.lineEnding === 'crlf' ? 'crlf' : undefined);
+};
+
+/**
+ * Encodes a file back to bytes in the format it was read in: binary content unchanged, text in its
+ * original encoding, byte order mark and line ending, subject to the project's .gitattributes.
+ * @param target 'repository' for content committed to git, 'workingTree' for files handed to the user.
+ */
+export const encodeFile = (file: UploadedFile, target: 'repository' | 'workingTree', rules: GitAttributeRule[] = []): Uint8Array => {
+    if (file.isBinary) {
+        return base64ToBytes(file.content.slice(file.content.indexOf(',') + 1));
+    }
+    const lineEnding = resolveLineEnding(file, target, rules);
+    let text = lineEnding === 'crlf' ? file.content.replace(/\r?\n/g, '\r\n')
+             : lineEnding === 'lf' ? file.content.replace(/\r\n/g, '\n')
+             : file.content;
+    const encoding = file.encoding ?? 'utf-8';
+    if (file.hasBom) text = BYTE_ORDER_MARKS[encoding] + text;
+
+    switch (encoding) {
+        case 'utf-16le': return encodeUtf16(text, true);
+        case 'utf-16be': return encodeUtf16(text, false);
+        case 'windows-1252': return encodeWindows1252(text, file.name);
+        default: return new TextEncoder().encode(text);
+    }
+};
+
+/**
+ * Encodes file content as base64 for a commit. Binary data URLs are unwrapped as-is, so the bytes
+ * round-trip unchanged; text is written back in its original format.
+ */
+export const encodeBase64 = (file: UploadedFile, rules: GitAttributeRule[] = []): string => {
+    if (file.isBinary) {
+        return file.content.slice(file.content.indexOf(',') + 1);
+    }
+    return bytesToBase64(encodeFile(file, 'repository', rules));
+};
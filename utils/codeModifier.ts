@@ -1,22 +1,56 @@
-import { ModificationPlan, UploadedFile } from '../types';
+import { FailedOperation, ModificationPlan, UploadedFile } from '../types';
+import { isEditableText } from './blob';
+import { applyUnifiedDiff } from './diff';
+
+// Lines of a file shown around the spot a failed operation was aimed at
+const SURROUNDING_LINES = 20;
+// When no spot can be found, the beginning of the file is shown instead
+const MAX_UNANCHORED_LINES = 300;
 
 function escapeRegExp(string: string) {
     return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
 }
 
+/**
+ * Finds the part of a file an operation was most likely aimed at, by the first line of its snippets that still occurs.
+ * @param snippets The code the operation expected to find, most telling first.
+ * @param span The number of lines the operation was meant to change.
+ */
+const getSurroundingContent = (content: string, snippets: string[], span: number): string => {
+    const lines = content.split('\n');
+    const probes = snippets
+        .flatMap(snippet => snippet.split('\n'))
+        .map(line => line.trim())
+        .filter(line => line.length >= 4);
+    for (const probe of probes) {
+        const index = lines.findIndex(line => line.includes(probe));
+        if (index >= 0) {
+            const start = Math.max(0, index - SURROUNDING_LINES);
+            return lines.slice(start, index + span + SURROUNDING_LINES).join('\n');
+        }
+    }
+    return lines.slice(0, MAX_UNANCHORED_LINES).join('\n');
+};
+
 export const applyChanges = (
     originalFiles: UploadedFile[], 
     plan: ModificationPlan
-): { finalFiles: UploadedFile[] } => {
-    
-    const finalFilesMap = new Map<string, { content: string, type: string }>();
-    originalFiles.forEach(file => {
-        finalFilesMap.set(file.name, { content: file.content, type: file.type });
+): { finalFiles: UploadedFile[], failedOperations: FailedOperation[] } => {
+    const failedOperations: FailedOperation[] = [];
+
+    const finalFilesMap = new Map<string, Omit<UploadedFile, 'name'>>();
+    originalFiles.forEach(({ name, ...data }) => {
+        finalFilesMap.set(name, data);
     });
     
     // 1. Handle file deletions first
     if (plan.deleteFiles) {
         for (const fileNameToDelete of plan.deleteFiles) {
+            const fileData = finalFilesMap.get(fileNameToDelete);
+            if (fileData && (fileData.isSubmodule || fileData.lfsPointer)) {
+                console.warn(`Skipping deletion of "${fileNameToDelete}"; submodules and Git LFS files are kept as they are.`);
+                continue;
+            }
             finalFilesMap.delete(fileNameToDelete);
         }
     }
@@ -28,6 +62,12 @@ export const applyChanges = (
         const fileData = finalFilesMap.get(op.fileName);
         if (!fileData) {
             console.warn(`File "${op.fileName}" not found for modification (it might have been deleted in the same plan).`);
+            failedOperations.push({ operation: op, reason: 'The file doesn\'t exist.', surroundingContent: null });
+            continue;
+        }
+        if (!isEditableText({ name: op.fileName, ...fileData })) {
+            console.warn(`Skipping operation on "${op.fileName}"; binary files, Git LFS files and submodules can't be edited.`);
+            failedOperations.push({ operation: op, reason: 'Binary files, Git LFS files and submodules can\'t be edited.', surroundingContent: null });
             continue;
         }
         let currentCode = fileData.content;
@@ -35,51 +75,128 @@ export const applyChanges = (
         const isModification = 'newCode' in op;
         const opAsMod = op as any; // Modification type
         
-        if (!fileData.type.startsWith('image/')) {
-            const fullContextString = op.before + op.codeToDelete + op.after;
-            const replacementString = isModification 
-                ? op.before + opAsMod.newCode + op.after 
-                : op.before + op.after;
-            
-            if (currentCode.includes(fullContextString)) {
-                currentCode = currentCode.replace(fullContextString, replacementString);
-            } else {
-                 const occurrences = op.codeToDelete ? (currentCode.match(new RegExp(escapeRegExp(op.codeToDelete), 'g')) || []).length : 0;
-                 if (op.codeToDelete && occurrences === 1) {
-                    console.warn(`Context mismatch for operation in "${op.fileName}". Falling back to direct, unambiguous replacement.`);
-                    const directReplacement = isModification ? opAsMod.newCode : '';
-                    currentCode = currentCode.replace(op.codeToDelete, directReplacement);
-                 } else {
-                    console.error(`Could not apply operation in file "${op.fileName}". Context not found, and direct replacement is ambiguous (found ${occurrences} times) or codeToDelete is empty. Skipping this change.`);
-                    console.error('Failed operation details:', op);
-                 }
-            }
-        } else if (isModification) {
-            currentCode = opAsMod.newCode;
+        const fullContextString = op.before + op.codeToDelete + op.after;
+        const replacementString = isModification 
+            ? op.before + opAsMod.newCode + op.after 
+            : op.before + op.after;
+        
+        if (currentCode.includes(fullContextString)) {
+            currentCode = currentCode.replace(fullContextString, replacementString);
+        } else {
+             const occurrences = op.codeToDelete ? (currentCode.match(new RegExp(escapeRegExp(op.codeToDelete), 'g')) || []).length : 0;
+             if (op.codeToDelete && occurrences === 1) {
+                console.warn(`Context mismatch for operation in "${op.fileName}". Falling back to direct, unambiguous replacement.`);
+                const directReplacement = isModification ? opAsMod.newCode : '';
+                currentCode = currentCode.replace(op.codeToDelete, directReplacement);
+             } else {
+                console.error(`Could not apply operation in file "${op.fileName}". Context not found, and direct replacement is ambiguous (found ${occurrences} times) or codeToDelete is empty. Skipping this change.`);
+                console.error('Failed operation details:', op);
+                failedOperations.push({
+                    operation: op,
+                    reason: !op.codeToDelete ? 'The surrounding code wasn\'t found and "codeToDelete" is empty.'
+                        : occurrences === 0 ? 'Neither the code to change nor its surrounding code was found.'
+                        : `The surrounding code wasn't found, and the code to change occurs ${occurrences} times.`,
+                    surroundingContent: getSurroundingContent(currentCode, [op.codeToDelete, op.before, op.after], op.codeToDelete.split('\n').length),
+                });
+             }
         }
 
-        finalFilesMap.set(op.fileName, { ...fileData, content: currentCode });
+        if (currentCode !== fileData.content) {
+            // The fetched blob SHA no longer describes this content
+            finalFilesMap.set(op.fileName, { ...fileData, content: currentCode, sha: undefined });
+        }
     }
     
-    // 3. Handle new files
+    // 3. Handle unified diffs and whole-file rewrites
+    for (const op of [...(plan.patch ?? []), ...(plan.rewrite ?? [])]) {
+        const fileData = finalFilesMap.get(op.fileName);
+        if (!fileData) {
+            console.warn(`File "${op.fileName}" not found for modification (it might have been deleted in the same plan).`);
+            failedOperations.push({ operation: op, reason: 'The file doesn\'t exist.', surroundingContent: null });
+            continue;
+        }
+        if (!isEditableText({ name: op.fileName, ...fileData })) {
+            console.warn(`Skipping operation on "${op.fileName}"; binary files, Git LFS files and submodules can't be edited.`);
+            failedOperations.push({ operation: op, reason: 'Binary files, Git LFS files and submodules can\'t be edited.', surroundingContent: null });
+            continue;
+        }
+        let newContent: string;
+        if ('diff' in op) {
+            const result = applyUnifiedDiff(fileData.content, op.diff);
+            if (!('content' in result)) {
+                console.error(`Could not apply diff to file "${op.fileName}". ${result.reason} Skipping this change.`);
+                // Without a hunk to go by, the beginning of the file is shown
+                const hunkLines = result.hunk?.oldLines ?? [];
+                failedOperations.push({
+                    operation: op,
+                    reason: result.reason,
+                    surroundingContent: getSurroundingContent(fileData.content, [hunkLines.join('\n')], hunkLines.length),
+                });
+                continue;
+            }
+            newContent = result.content;
+        } else {
+            newContent = op.code;
+        }
+        if (newContent !== fileData.content) {
+            finalFilesMap.set(op.fileName, { ...fileData, content: newContent, sha: undefined });
+        }
+    }
+
+    // 4. Handle new files
     if (plan.newFiles) {
         for (const newFile of plan.newFiles) {
-            if (finalFilesMap.has(newFile.fileName)) {
+            const existing = finalFilesMap.get(newFile.fileName);
+            if (existing && (existing.isSubmodule || existing.lfsPointer)) {
+                console.warn(`Skipping new file "${newFile.fileName}"; it would replace a submodule or Git LFS file.`);
+                continue;
+            }
+            if (existing) {
                 console.warn(`File "${newFile.fileName}" already exists. Overwriting with new content.`);
             }
             const type = newFile.fileName.endsWith('.js') ? 'application/javascript'
                        : newFile.fileName.endsWith('.css') ? 'text/css'
                        : newFile.fileName.endsWith('.html') ? 'text/html'
                        : 'text/plain';
-            finalFilesMap.set(newFile.fileName, { content: newFile.code, type });
+            // Keep the mode and text format of an overwritten file (e.g. an executable script with CRLF line endings)
+            const { mode, encoding, hasBom, lineEnding } = existing ?? {};
+            finalFilesMap.set(newFile.fileName, {
+                content: newFile.code,
+                type,
+                ...(mode ? { mode } : {}),
+                ...(encoding ? { encoding } : {}),
+                ...(hasBom ? { hasBom } : {}),
+                ...(lineEnding ? { lineEnding } : {}),
+            });
         }
     }
 
     const finalFiles: UploadedFile[] = Array.from(finalFilesMap.entries()).map(([name, data]) => ({
         name,
-        content: data.content,
-        type: data.type
+        ...data
     }));
 
-    return { finalFiles };
+    return { finalFiles, failedOperations };
+};
+
+/**
+ * Compares two versions of a project by file content.
+ * @returns The files that are new or whose content differs, and the files that no longer exist.
+ */
+export const getChangedFiles = (
+    originalFiles: UploadedFile[],
+    modifiedFiles: UploadedFile[]
+): { changed: UploadedFile[], removed: UploadedFile[] } => {
+    const originalMap = new Map(originalFiles.map(f => [f.name, f]));
+    const modifiedNames = new Set(modifiedFiles.map(f => f.name));
+    const changed = modifiedFiles.filter(file => {
+        const original = originalMap.get(file.name);
+        // Content that was never downloaded can't have been changed
+        if (file.isLoaded === false) return false;
+        // The fetched blob SHA is cleared whenever content changes
+        if (original && file.sha && file.sha === original.sha) return false;
+        return !original || original.content !== file.content;
+    });
+    const removed = originalFiles.filter(file => !modifiedNames.has(file.name));
+    return { changed, removed };
 };
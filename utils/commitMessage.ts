@@ -0,0 +1,31 @@
+import { CommitDetails } from '../types';
+
+// Git trailers are 'Token: value' lines in the last paragraph of a message
+const TRAILER_PATTERN = /^[A-Za-z][A-Za-z0-9-]*: \S/;
+
+export const MAX_SUBJECT_LENGTH = 72;
+
+export const isTrailerLine = (line: string): boolean => TRAILER_PATTERN.test(line);
+
+/**
+ * Splits trailer lines typed by the user into a list, dropping blank lines.
+ */
+export const parseTrailerLines = (text: string): string[] =>
+  text.split('\n').map(line => line.trim()).filter(Boolean);
+
+export const getSubjectLine = (message: string): string => message.trimStart().split('\n')[0];
+
+/**
+ * Builds the final commit message, appending trailers the way `git interpret-trailers` does:
+ * into the existing trailer block if the message ends with one, otherwise after a blank line.
+ */
+export const formatCommitMessage = ({ message, trailers = [] }: CommitDetails): string => {
+  const body = message.trim();
+  const missing = trailers.filter(trailer => !body.split('\n').includes(trailer));
+  if (missing.length === 0) return body;
+
+  const paragraphs = body.split(/\n\s*\n/);
+  const lastParagraph = paragraphs[paragraphs.length - 1].split('\n');
+  const endsWithTrailers = paragraphs.length > 1 && lastParagraph.every(isTrailerLine);
+  return `${body}${endsWithTrailers ? '\n' : '\n\n'}${missing.join('\n')}`;
+};
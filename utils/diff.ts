@@ -0,0 +1,220 @@
+export interface DiffHunk {
+  aStart: number; // Line range in the old text, end exclusive
+  aEnd: number;
+  bStart: number; // Line range in the new text, end exclusive
+  bEnd: number;
+}
+
+// Beyond this many LCS cells the changed middle section is reported as a single hunk
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * Computes the line ranges that differ between two texts using a longest common subsequence.
+ * @param a The old lines.
+ * @param b The new lines.
+ * @returns The differing hunks, in order.
+ */
+export const diffLines = (a: string[], b: string[]): DiffHunk[] => {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix);
+  const bMid = b.slice(prefix, b.length - suffix);
+  if (aMid.length === 0 && bMid.length === 0) return [];
+
+  if (aMid.length === 0 || bMid.length === 0 || aMid.length * bMid.length > MAX_LCS_CELLS) {
+    return [{ aStart: prefix, aEnd: a.length - suffix, bStart: prefix, bEnd: b.length - suffix }];
+  }
+
+  // lcs[i][j] holds the LCS length of aMid[i..] and bMid[j..]
+  const n = aMid.length;
+  const m = bMid.length;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = aMid[i] === bMid[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && aMid[i] === bMid[j]) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      i++;
+      j++;
+      continue;
+    }
+    if (!current) {
+      current = { aStart: prefix + i, aEnd: prefix + i, bStart: prefix + j, bEnd: prefix + j };
+    }
+    if (j < m && (i >= n || lcs[i * width + j + 1] >= lcs[(i + 1) * width + j])) {
+      j++;
+      current.bEnd = prefix + j;
+    } else {
+      i++;
+      current.aEnd = prefix + i;
+    }
+  }
+  if (current) hunks.push(current);
+
+  return hunks;
+};
+
+// Hunk header ranges are 1-based, except that an empty range names the line before it
+const formatRange = (start: number, end: number) => `${end === start ? start : start + 1},${end - start}`;
+
+/**
+ * Renders the differences between two versions of a file as a unified diff.
+ * @param fileName The path shown in the diff header. Pass null as oldText for a new file and as newText for a deleted one.
+ * @param context The number of unchanged lines kept around each change.
+ * @returns The diff text, or an empty string when the versions are identical.
+ */
+export const createUnifiedDiff = (fileName: string, oldText: string | null, newText: string | null, context = 3): string => {
+  const a = oldText === null ? [] : oldText.split('\n');
+  const b = newText === null ? [] : newText.split('\n');
+  const hunks = diffLines(a, b);
+  if (hunks.length === 0) return '';
+
+  // Merge hunks whose context windows touch, as diff does
+  const groups: DiffHunk[][] = [];
+  for (const hunk of hunks) {
+    const last = groups[groups.length - 1];
+    if (last && hunk.aStart - last[last.length - 1].aEnd <= context * 2) {
+      last.push(hunk);
+    } else {
+      groups.push([hunk]);
+    }
+  }
+
+  const lines = [
+    `--- ${oldText === null ? '/dev/null' : `a/${fileName}`}`,
+    `+++ ${newText === null ? '/dev/null' : `b/${fileName}`}`,
+  ];
+  for (const group of groups) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const aStart = Math.max(0, first.aStart - context);
+    const aEnd = Math.min(a.length, last.aEnd + context);
+    const bStart = first.bStart - (first.aStart - aStart);
+    const bEnd = last.bEnd + (aEnd - last.aEnd);
+    lines.push(`@@ -${formatRange(aStart, aEnd)} +${formatRange(bStart, bEnd)} @@`);
+
+    let aLine = aStart;
+    for (const hunk of group) {
+      for (; aLine < hunk.aStart; aLine++) lines.push(` ${a[aLine]}`);
+      for (let k = hunk.aStart; k < hunk.aEnd; k++) lines.push(`-${a[k]}`);
+      for (let k = hunk.bStart; k < hunk.bEnd; k++) lines.push(`+${b[k]}`);
+      aLine = hunk.aEnd;
+    }
+    for (; aLine < aEnd; aLine++) lines.push(` ${a[aLine]}`);
+  }
+  return lines.join('\n');
+};
+
+export interface PatchHunk {
+  oldStart: number | null; // 1-based line number from the hunk header, if it has one
+  lines: string[]; // Each starting with " " for context, "-" for a removed line or "+" for an added one
+  oldLines: string[]; // Context and removed lines, without their markers
+}
+
+// Models often leave out the line numbers, so a bare "@@" also starts a hunk
+const HUNK_HEADER = /^@@\s*(?:-(\d+)(?:,\d+)?\s*\+\d+(?:,\d+)?\s*)?@@/;
+
+/**
+ * Reads the hunks of a unified diff. File headers and text before the first hunk are ignored, and a line
+ * without its leading space is taken as context, as models tend to drop it on blank lines.
+ */
+export const parseUnifiedDiff = (diff: string): PatchHunk[] => {
+  const hunks: PatchHunk[] = [];
+  let current: PatchHunk | null = null;
+  for (const line of diff.replace(/\r\n/g, '\n').split('\n')) {
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      current = { oldStart: header[1] ? Number(header[1]) : null, lines: [], oldLines: [] };
+      hunks.push(current);
+    } else if (current && !line.startsWith('\\')) {
+      current.lines.push(/^[ +-]/.test(line) ? line : ` ${line}`);
+    }
+  }
+  for (const hunk of hunks) {
+    // The blank line that ends the diff text isn't part of its last hunk
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1].trim() === '') hunk.lines.pop();
+    hunk.oldLines = hunk.lines.filter(line => !line.startsWith('+')).map(line => line.slice(1));
+  }
+  return hunks;
+};
+
+const findLines = (lines: string[], target: string[], from: number, normalize: (line: string) => string): number[] => {
+  const wanted = target.map(normalize);
+  const positions: number[] = [];
+  for (let start = from; start + wanted.length <= lines.length; start++) {
+    if (wanted.every((line, k) => normalize(lines[start + k]) === line)) positions.push(start);
+  }
+  return positions;
+};
+
+/**
+ * Applies a unified diff to a text. Each hunk is located by its context and removed lines rather than its line
+ * number, which only tells apart several matches; when no exact match exists, whitespace is ignored and the
+ * context lines are kept as they are in the text.
+ * @returns The patched text, or the reason the diff doesn't apply and the hunk at fault. Nothing is applied on failure.
+ */
+export const applyUnifiedDiff = (content: string, diff: string): { content: string } | { reason: string, hunk: PatchHunk | null } => {
+  const hunks = parseUnifiedDiff(diff);
+  if (hunks.length === 0) return { reason: 'The diff has no "@@" hunks.', hunk: null };
+
+  const lines = content.split('\n');
+  // Where the next hunk may start, and how far earlier hunks moved the lines after them
+  let from = 0;
+  let offset = 0;
+  for (const [index, hunk] of hunks.entries()) {
+    const expected = hunk.oldStart === null ? null : hunk.oldStart - 1 + offset;
+    let position: number;
+    if (hunk.oldLines.length === 0) {
+      // A hunk that only adds lines has nothing to match; its header names the line it follows
+      if (hunk.oldStart === null) return { reason: `Hunk ${index + 1} only adds lines and has no line number saying where.`, hunk };
+      position = Math.min(Math.max(hunk.oldStart + offset, from), lines.length);
+    } else {
+      let positions = findLines(lines, hunk.oldLines, from, line => line);
+      if (positions.length === 0) positions = findLines(lines, hunk.oldLines, from, line => line.trim());
+      if (positions.length === 0) return { reason: `The lines of hunk ${index + 1} weren't found in the file.`, hunk };
+      if (positions.length > 1 && expected === null) {
+        return { reason: `The lines of hunk ${index + 1} occur ${positions.length} times, and it has no line number to tell them apart.`, hunk };
+      }
+      position = expected === null ? positions[0] : positions.reduce((best, p) => Math.abs(p - expected) < Math.abs(best - expected) ? p : best);
+    }
+    const replacement: string[] = [];
+    let oldLine = position;
+    for (const line of hunk.lines) {
+      if (line.startsWith('+')) {
+        replacement.push(line.slice(1));
+      } else {
+        if (line.startsWith(' ')) replacement.push(lines[oldLine]);
+        oldLine++;
+      }
+    }
+    lines.splice(position, hunk.oldLines.length, ...replacement);
+    from = position + replacement.length;
+    offset += replacement.length - hunk.oldLines.length;
+  }
+  return { content: lines.join('\n') };
+};
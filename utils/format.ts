@@ -0,0 +1,63 @@
+import { UploadedFile } from '../types';
+
+const RELATIVE_TIME_UNITS: Array<[Intl.RelativeTimeFormatUnit, number]> = [
+  ['year', 365 * 24 * 60 * 60 * 1000],
+  ['month', 30 * 24 * 60 * 60 * 1000],
+  ['day', 24 * 60 * 60 * 1000],
+  ['hour', 60 * 60 * 1000],
+  ['minute', 60 * 1000],
+];
+
+/**
+ * Formats a timestamp relative to now, e.g. "3 days ago".
+ * @param isoDate An ISO 8601 timestamp.
+ * @returns The formatted string, or an empty string for a missing date.
+ */
+export const formatRelativeTime = (isoDate: string | null | undefined): string => {
+  if (!isoDate) return '';
+  const elapsed = new Date(isoDate).getTime() - Date.now();
+  const formatter = new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' });
+  for (const [unit, ms] of RELATIVE_TIME_UNITS) {
+    if (Math.abs(elapsed) >= ms) {
+      return formatter.format(Math.round(elapsed / ms), unit);
+    }
+  }
+  return 'just now';
+};
+
+/**
+ * Formats a byte count with a binary unit, e.g. "1.5 KB".
+ */
+export const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+};
+
+/**
+ * Describes the text format of a file when it differs from plain UTF-8 with LF line endings,
+ * e.g. "WINDOWS-1252, CRLF".
+ * @returns The description, or null for plain UTF-8 with LF line endings.
+ */
+export const describeTextFormat = (file: UploadedFile): string | null => {
+  const parts: string[] = [];
+  if (file.encoding) parts.push(file.encoding.toUpperCase());
+  if (file.hasBom) parts.push(file.encoding ? 'BOM' : 'UTF-8 with BOM');
+  if (file.lineEnding === 'crlf') parts.push('CRLF');
+  return parts.length > 0 ? parts.join(', ') : null;
+};
+
+/**
+ * Formats a token count compactly, e.g. "850", "12.3k" or "1.0M".
+ */
+export const formatTokenCount = (tokens: number): string => {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
@@ -0,0 +1,103 @@
+import { LineEnding, UploadedFile } from '../types';
+
+/**
+ * The end-of-line attributes of a path. `text: false` covers both `-text` and `binary`.
+ */
+export interface GitAttributes {
+    text?: boolean | 'auto';
+    eol?: LineEnding;
+}
+
+export interface GitAttributeRule {
+    pattern: RegExp;
+    attributes: GitAttributes;
+}
+
+export const isGitAttributesFile = (path: string): boolean =>
+    path === '.gitattributes' || path.endsWith('/.gitattributes');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Translates a gitattributes glob to a regular expression source, following gitignore's wildcard rules
+const globToRegExpSource = (glob: string): string => {
+    let source = '';
+    for (let i = 0; i < glob.length; i++) {
+        const char = glob[i];
+        if (glob.startsWith('**/', i)) {
+            source += '(?:.*/)?';
+            i += 2;
+        } else if (glob.startsWith('**', i) && i + 2 === glob.length) {
+            source += '.*';
+            i += 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else if (char === '[' && glob.indexOf(']', i + 2) !== -1) {
+            const end = glob.indexOf(']', i + 2);
+            const body = glob.slice(i + 1, end);
+            source += `[${body.startsWith('!') ? '^' + body.slice(1) : body}]`;
+            i = end;
+        } else {
+            source += escapeRegExp(char);
+        }
+    }
+    return source;
+};
+
+// Parses the attribute tokens of one line, keeping only those that affect line endings
+const parseAttributes = (tokens: string[]): GitAttributes => {
+    const attributes: GitAttributes = {};
+    for (const token of tokens) {
+        if (token === 'text') attributes.text = true;
+        else if (token === '-text' || token === 'binary') attributes.text = false;
+        else if (token === 'text=auto') attributes.text = 'auto';
+        else if (token === '!text') attributes.text = undefined;
+        else if (token === 'eol=lf' || token === 'eol=crlf') attributes.eol = token.slice(4) as LineEnding;
+        else if (token === '!eol' || token === '-eol') attributes.eol = undefined;
+    }
+    return attributes;
+};
+
+/**
+ * Collects the rules of every loaded .gitattributes file in a project. Rules are ordered so that
+ * later ones take precedence: deeper directories after shallower ones, later lines after earlier ones.
+ */
+export const parseGitAttributes = (files: UploadedFile[]): GitAttributeRule[] => {
+    const attributeFiles = files
+        .filter(f => isGitAttributesFile(f.name) && f.isLoaded !== false && !f.isBinary)
+        .sort((a, b) => a.name.split('/').length - b.name.split('/').length);
+
+    const rules: GitAttributeRule[] = [];
+    for (const file of attributeFiles) {
+        const dirPrefix = escapeRegExp(file.name.slice(0, file.name.length - '.gitattributes'.length));
+        for (const rawLine of file.content.split('\n')) {
+            const [glob, ...tokens] = rawLine.trim().split(/\s+/);
+            // Comments, macro definitions and negative patterns (which git rejects) are skipped
+            if (!glob || glob.startsWith('#') || glob.startsWith('[attr]') || glob.startsWith('!')) continue;
+            // Patterns with a trailing slash only match directories, and attributes don't apply to their contents
+            if (glob.endsWith('/')) continue;
+            const attributes = parseAttributes(tokens);
+            if (Object.keys(attributes).length === 0) continue;
+            // A pattern without a slash matches a file name at any depth, otherwise it is relative to the file's directory
+            const pattern = glob.includes('/')
+                ? new RegExp(`^${dirPrefix}${globToRegExpSource(glob.replace(/^\//, ''))}$`)
+                : new RegExp(`^${dirPrefix}(?:.*/)?${globToRegExpSource(glob)}$`);
+            rules.push({ pattern, attributes });
+        }
+    }
+    return rules;
+};
+
+/**
+ * Resolves the end-of-line attributes that apply to a path.
+ */
+export const getGitAttributes = (rules: GitAttributeRule[], path: string): GitAttributes => {
+    const resolved: GitAttributes = {};
+    for (const rule of rules) {
+        if (rule.pattern.test(path)) Object.assign(resolved, rule.attributes);
+    }
+    // Setting eol without text marks the path as text
+    if (resolved.text === undefined && resolved.eol) resolved.text = true;
+    return resolved;
+};
@@ -0,0 +1,54 @@
+import { LlmSettings, ModelOption } from '../types';
+import { getLlmProvider } from '../services/llmProvider';
+
+const SETTINGS_KEY = 'llm_settings';
+const SELECTED_MODEL_KEY = 'llm_selected_model';
+// API keys are kept for the browser tab only, like repository tokens
+const API_KEY_KEY = 'llm_api_key';
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+// The model list is never empty: the model selector always needs one to fall back on
+const isModelList = (value: unknown): value is ModelOption[] =>
+  Array.isArray(value) && value.length > 0 && value.every(model => typeof model?.id === 'string' && typeof model?.label === 'string');
+
+/**
+ * Loads the AI provider settings, defaulting to Gemini with its built-in model list.
+ */
+export const loadLlmSettings = (): LlmSettings => {
+  const apiKey = sessionStorage.getItem(API_KEY_KEY) ?? '';
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (saved) {
+      const { provider, baseUrl, models, maxRepairAttempts } = JSON.parse(saved);
+      const llmProvider = getLlmProvider(provider);
+      return {
+        connection: { provider: llmProvider.id, baseUrl: baseUrl ?? '', apiKey },
+        models: isModelList(models) ? models : llmProvider.defaultModels,
+        maxRepairAttempts: maxRepairAttempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS,
+      };
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable AI settings:', error);
+  }
+  return {
+    connection: { provider: 'gemini', baseUrl: '', apiKey },
+    models: getLlmProvider('gemini').defaultModels,
+    maxRepairAttempts: DEFAULT_MAX_REPAIR_ATTEMPTS,
+  };
+};
+
+export const saveLlmSettings = (settings: LlmSettings) => {
+  const { provider, baseUrl, apiKey } = settings.connection;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ provider, baseUrl, models: settings.models, maxRepairAttempts: settings.maxRepairAttempts }));
+  if (apiKey) {
+    sessionStorage.setItem(API_KEY_KEY, apiKey);
+  } else {
+    sessionStorage.removeItem(API_KEY_KEY);
+  }
+};
+
+export const loadSelectedModel = (): string | null => localStorage.getItem(SELECTED_MODEL_KEY);
+
+export const saveSelectedModel = (modelId: string) => {
+  localStorage.setItem(SELECTED_MODEL_KEY, modelId);
+};
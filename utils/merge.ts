@@ -0,0 +1,95 @@
+import { diffLines, DiffHunk } from './diff';
+
+export const CONFLICT_START = '<<<<<<< yours';
+export const CONFLICT_SEPARATOR = '=======';
+export const CONFLICT_END = '>>>>>>> remote';
+
+export interface MergeResult {
+  merged: string;
+  conflicts: number; // Number of conflict blocks left in `merged`
+}
+
+interface SideHunk extends DiffHunk {
+  side: 'ours' | 'theirs';
+}
+
+/**
+ * Maps a range of base lines onto one side, using the side's hunks that fall inside it.
+ */
+const sliceSide = (lines: string[], hunks: SideHunk[], start: number, end: number): string[] => {
+  const first = hunks[0];
+  const last = hunks[hunks.length - 1];
+  const sideStart = first.bStart - (first.aStart - start);
+  const sideEnd = last.bEnd + (end - last.aEnd);
+  return lines.slice(sideStart, sideEnd);
+};
+
+/**
+ * Performs a line-based three-way merge. Changes made on only one side are applied
+ * automatically; overlapping changes that differ are wrapped in conflict markers.
+ * @param base The common ancestor.
+ * @param ours Our version.
+ * @param theirs Their version.
+ * @returns The merged text and the number of conflicts in it.
+ */
+export const mergeThreeWay = (base: string, ours: string, theirs: string): MergeResult => {
+  if (ours === theirs || base === theirs) return { merged: ours, conflicts: 0 };
+  if (base === ours) return { merged: theirs, conflicts: 0 };
+
+  const baseLines = base.split('\n');
+  const oursLines = ours.split('\n');
+  const theirsLines = theirs.split('\n');
+
+  const hunks: SideHunk[] = [
+    ...diffLines(baseLines, oursLines).map(h => ({ ...h, side: 'ours' as const })),
+    ...diffLines(baseLines, theirsLines).map(h => ({ ...h, side: 'theirs' as const })),
+  ].sort((x, y) => x.aStart - y.aStart || x.aEnd - y.aEnd);
+
+  const output: string[] = [];
+  let conflicts = 0;
+  let basePos = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks whose base ranges overlap or touch; those must be resolved together
+    const group = [hunks[index]];
+    const groupStart = hunks[index].aStart;
+    let groupEnd = hunks[index].aEnd;
+    index++;
+    while (index < hunks.length && hunks[index].aStart <= groupEnd) {
+      group.push(hunks[index]);
+      groupEnd = Math.max(groupEnd, hunks[index].aEnd);
+      index++;
+    }
+
+    output.push(...baseLines.slice(basePos, groupStart));
+    basePos = groupEnd;
+
+    const oursHunks = group.filter(h => h.side === 'ours');
+    const theirsHunks = group.filter(h => h.side === 'theirs');
+
+    if (theirsHunks.length === 0) {
+      output.push(...sliceSide(oursLines, oursHunks, groupStart, groupEnd));
+    } else if (oursHunks.length === 0) {
+      output.push(...sliceSide(theirsLines, theirsHunks, groupStart, groupEnd));
+    } else {
+      const oursChunk = sliceSide(oursLines, oursHunks, groupStart, groupEnd);
+      const theirsChunk = sliceSide(theirsLines, theirsHunks, groupStart, groupEnd);
+      if (oursChunk.join('\n') === theirsChunk.join('\n')) {
+        output.push(...oursChunk);
+      } else {
+        conflicts++;
+        output.push(CONFLICT_START, ...oursChunk, CONFLICT_SEPARATOR, ...theirsChunk, CONFLICT_END);
+      }
+    }
+  }
+  output.push(...baseLines.slice(basePos));
+
+  return { merged: output.join('\n'), conflicts };
+};
+
+/**
+ * Checks whether text still contains unresolved conflict markers.
+ */
+export const hasConflictMarkers = (text: string): boolean =>
+  text.split('\n').some(line => line.startsWith(CONFLICT_START) || line.startsWith(CONFLICT_END));
@@ -0,0 +1,191 @@
+import { Deletion, JsonSchema, Modification, ModificationPlan, Patch, Rewrite } from '../types';
+
+// An object schema keyed on the fields of T, so a field added to or renamed in T can't be forgotten here
+type ObjectSchema<T> = Omit<JsonSchema, 'type' | 'properties' | 'required'> & {
+  type: 'object',
+  properties: { [K in keyof T]-?: JsonSchema },
+  required?: Array<keyof T & string>,
+};
+
+const arrayOf = <T>(items: ObjectSchema<T>): JsonSchema => ({ type: 'array', items });
+
+const fileName: JsonSchema = { type: 'string', minLength: 1, description: 'Full path of the file' };
+const snippet = (description: string): JsonSchema => ({ type: 'string', description });
+
+/**
+ * JSON Schema of a ModificationPlan, sent to the model to constrain its response and used to validate it.
+ */
+export const MODIFICATION_PLAN_SCHEMA: ObjectSchema<ModificationPlan> = {
+  type: 'object',
+  properties: {
+    modify: arrayOf<Modification>({
+      type: 'object',
+      properties: {
+        fileName,
+        before: snippet('Unique code immediately preceding the code to change'),
+        codeToDelete: snippet('Exact original code to replace'),
+        newCode: snippet('Code to insert instead'),
+        after: snippet('Unique code immediately following the code to change'),
+      },
+      required: ['fileName', 'before', 'codeToDelete', 'newCode', 'after'],
+    }),
+    delete: arrayOf<Deletion>({
+      type: 'object',
+      properties: {
+        fileName,
+        before: snippet('Unique code immediately preceding the code to delete'),
+        codeToDelete: snippet('Exact code to remove'),
+        after: snippet('Unique code immediately following the code to delete'),
+      },
+      required: ['fileName', 'before', 'codeToDelete', 'after'],
+    }),
+    patch: arrayOf<Patch>({
+      type: 'object',
+      properties: {
+        fileName,
+        diff: snippet('Unified diff hunks for the file, each starting with an "@@ -start,count +start,count @@" header'),
+      },
+      required: ['fileName', 'diff'],
+    }),
+    rewrite: arrayOf<Rewrite>({
+      type: 'object',
+      properties: {
+        fileName,
+        code: snippet('Complete new content of the existing file'),
+      },
+      required: ['fileName', 'code'],
+    }),
+    newFiles: arrayOf<NonNullable<ModificationPlan['newFiles']>[number]>({
+      type: 'object',
+      properties: {
+        fileName,
+        code: snippet('Complete content of the new file'),
+      },
+      required: ['fileName', 'code'],
+    }),
+    deleteFiles: { type: 'array', items: fileName },
+    notes: snippet('Brief summary of the changes and why they are made'),
+  },
+};
+
+/**
+ * JSON Schema of the operations that replace those of a plan that couldn't be applied. Each correction names the
+ * failed operations it stands in for, so a failure split into several operations or merged with another is still
+ * counted once.
+ */
+export const REANCHOR_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    corrections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          failures: { type: 'array', items: { type: 'string', minLength: 1 }, description: 'Numbers of the failed operations replaced, e.g. ["2"]' },
+          modify: MODIFICATION_PLAN_SCHEMA.properties.modify,
+          delete: MODIFICATION_PLAN_SCHEMA.properties.delete,
+          patch: MODIFICATION_PLAN_SCHEMA.properties.patch,
+        },
+        required: ['failures'],
+      },
+    },
+  },
+  required: ['corrections'],
+};
+
+/**
+ * JSON Schema of the files the model proposes to edit and read for a change.
+ */
+export const FILE_SELECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    edit: { type: 'array', items: fileName, description: 'Files the change requires editing' },
+    read: { type: 'array', items: fileName, description: 'Files worth reading for context' },
+    notes: snippet('One or two sentences on the choice'),
+  },
+  required: ['edit', 'read'],
+};
+
+const describeValue = (value: unknown): string =>
+  value === null ? 'null' : Array.isArray(value) ? 'an array' : typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+
+// Object keys outside the schema are reported too: a misspelled "modifications" would otherwise be ignored silently
+const validate = (value: unknown, schema: JsonSchema, path: string, errors: string[]) => {
+  const at = path || '(root)';
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${at}: expected a string, got ${describeValue(value)}`);
+      } else if (schema.minLength && value.length < schema.minLength) {
+        errors.push(`${at}: must not be empty`);
+      }
+      return;
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected an array, got ${describeValue(value)}`);
+        return;
+      }
+      value.forEach((item, index) => validate(item, schema.items!, `${path}[${index}]`, errors));
+      return;
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${at}: expected an object, got ${describeValue(value)}`);
+        return;
+      }
+      const properties = schema.properties ?? {};
+      const record = value as Record<string, unknown>;
+      const keyPath = (key: string) => path ? `${path}.${key}` : key;
+      for (const key of schema.required ?? []) {
+        if (!(key in record)) errors.push(`${keyPath(key)}: is required`);
+      }
+      for (const [key, item] of Object.entries(record)) {
+        if (properties[key]) {
+          validate(item, properties[key], keyPath(key), errors);
+        } else {
+          errors.push(`${keyPath(key)}: unknown key, expected one of ${Object.keys(properties).join(', ')}`);
+        }
+      }
+      return;
+    }
+  }
+};
+
+/**
+ * Checks a value against a schema.
+ * @returns One error per problem, each prefixed with the path of the offending value below the given path.
+ */
+export const validateSchemaValue = (value: unknown, schema: JsonSchema, path = ''): string[] => {
+  const errors: string[] = [];
+  validate(value, schema, path, errors);
+  return errors;
+};
+
+/**
+ * Parses a model's JSON response against a schema, tolerating a markdown fence around the JSON.
+ * @returns The value, or null with one error per problem, each prefixed with the path of the offending value.
+ */
+export const parseSchemaResponse = <T>(response: string, schema: JsonSchema): { value: T | null, errors: string[] } => {
+  let json = response.trim();
+  const fence = json.match(/^```(\w*)?\s*\n?(.*?)\n?\s*```$/s);
+  if (fence && fence[2]) json = fence[2].trim();
+
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch (e) {
+    return { value: null, errors: [`(root): not valid JSON: ${e instanceof Error ? e.message : String(e)}`] };
+  }
+  const errors = validateSchemaValue(value, schema);
+  return errors.length > 0 ? { value: null, errors } : { value: value as T, errors };
+};
+
+/**
+ * Parses a model's response into a ModificationPlan, tolerating a markdown fence around the JSON.
+ * @returns The plan, or null with one error per problem, each prefixed with the path of the offending value.
+ */
+export const parseModificationPlan = (response: string): { plan: ModificationPlan | null, errors: string[] } => {
+  // An empty response means there is nothing to change
+  if (!response.trim()) return { plan: {}, errors: [] };
+  const { value, errors } = parseSchemaResponse<ModificationPlan>(response, MODIFICATION_PLAN_SCHEMA);
+  return { plan: value, errors };
+};
@@ -0,0 +1,130 @@
+import { ModificationPlan } from '../types';
+import { MODIFICATION_PLAN_SCHEMA, validateSchemaValue } from './planSchema';
+
+type OperationKey = 'modify' | 'delete' | 'patch' | 'rewrite' | 'newFiles' | 'deleteFiles';
+
+const OPERATION_KEYS: OperationKey[] = ['modify', 'delete', 'patch', 'rewrite', 'newFiles', 'deleteFiles'];
+
+export type PlanOperation = { [K in OperationKey]: { key: K, value: NonNullable<ModificationPlan[K]>[number] } }[OperationKey];
+
+/**
+ * Creates a parser that reads a modification plan as it streams in and picks out every operation as soon as
+ * its JSON is complete. Text around the root object, such as a markdown fence, is ignored. Operations that
+ * don't match the schema are skipped here; the complete response is still validated once it has arrived.
+ */
+export const createPlanStreamParser = () => {
+  let text = '';
+  let position = 0;
+  // Open brackets and braces; the root object is the first entry
+  const containers: string[] = [];
+  let isDone = false;
+  let inString = false;
+  let isEscaped = false;
+  let stringStart = -1;
+  let lastRootString: string | null = null;
+  let rootKey: string | null = null;
+  let operationKey: OperationKey | null = null;
+  let elementStart = -1;
+
+  const completeElement = (end: number, operations: PlanOperation[]) => {
+    const key = operationKey!;
+    const start = elementStart;
+    elementStart = -1;
+    let value: unknown;
+    try {
+      value = JSON.parse(text.slice(start, end));
+    } catch {
+      return;
+    }
+    if (validateSchemaValue(value, MODIFICATION_PLAN_SCHEMA.properties[key].items!).length === 0) {
+      operations.push({ key, value } as PlanOperation);
+    }
+  };
+
+  /**
+   * Reads the next chunk of the response.
+   * @returns The operations completed by the chunk, in order.
+   */
+  const push = (chunk: string): PlanOperation[] => {
+    const operations: PlanOperation[] = [];
+    text += chunk;
+    for (; position < text.length && !isDone; position++) {
+      const char = text[position];
+      const depth = containers.length;
+
+      if (inString) {
+        if (isEscaped) {
+          isEscaped = false;
+        } else if (char === '\\') {
+          isEscaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1) {
+            try {
+              lastRootString = JSON.parse(text.slice(stringStart, position + 1));
+            } catch {
+              lastRootString = null;
+            }
+          } else if (depth === 2 && elementStart === stringStart) {
+            completeElement(position + 1, operations);
+          }
+        }
+        continue;
+      }
+
+      if (depth === 0) {
+        if (char === '{') containers.push(char);
+        continue;
+      }
+
+      // The first value of an operation array element marks its start
+      if (depth === 2 && operationKey && elementStart < 0 && !/[\s,\]]/.test(char)) {
+        elementStart = position;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === ':' && depth === 1) {
+        rootKey = lastRootString;
+      } else if (char === ',' && depth === 1) {
+        rootKey = null;
+      } else if (char === '{' || char === '[') {
+        if (depth === 1 && char === '[') {
+          operationKey = OPERATION_KEYS.find(key => key === rootKey) ?? null;
+        }
+        containers.push(char);
+      } else if (char === '}' || char === ']') {
+        containers.pop();
+        if (containers.length === 2 && operationKey && elementStart >= 0) {
+          completeElement(position + 1, operations);
+        } else if (containers.length === 1) {
+          operationKey = null;
+          elementStart = -1;
+        } else if (containers.length === 0) {
+          isDone = true;
+        }
+      }
+    }
+    return operations;
+  };
+
+  return { push };
+};
+
+/**
+ * Adds streamed operations to a plan, returning a new plan.
+ */
+export const appendOperations = (plan: ModificationPlan, operations: PlanOperation[]): ModificationPlan => {
+  const next: ModificationPlan = { ...plan };
+  for (const { key, value } of operations) {
+    (next[key] as unknown[]) = [...(next[key] ?? []), value];
+  }
+  return next;
+};
+
+/**
+ * Counts the file operations of a plan, leaving out its notes.
+ */
+export const countOperations = (plan: ModificationPlan): number =>
+  OPERATION_KEYS.reduce((count, key) => count + (plan[key]?.length ?? 0), 0);
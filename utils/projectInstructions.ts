@@ -0,0 +1,16 @@
+import { UploadedFile } from '../types';
+import { isEditableText } from './blob';
+
+// Conventions the project asks the model to follow, in a markdown file at the project root
+export const PROJECT_INSTRUCTIONS_FILE = '.aicodemod.md';
+
+export const isProjectInstructionsFile = (path: string): boolean => path === PROJECT_INSTRUCTIONS_FILE;
+
+/**
+ * @returns The text of the project's instructions file, or null if there is none or it hasn't been loaded.
+ */
+export const getProjectInstructions = (files: UploadedFile[]): string | null => {
+  const file = files.find(f => isProjectInstructionsFile(f.name));
+  if (!file || file.isLoaded === false || !isEditableText(file)) return null;
+  return file.content.trim() || null;
+};
@@ -0,0 +1,42 @@
+import { PromptTemplate } from '../types';
+
+const TEMPLATES_KEY = 'prompt_templates';
+
+const DEFAULT_TEMPLATES: PromptTemplate[] = [
+  { id: 'tests', name: 'Write tests', body: 'Write unit tests for {{file}}, covering its edge cases. Follow the project\'s existing test layout.' },
+  { id: 'refactor-selection', name: 'Refactor selection', body: 'In {{file}}, refactor this code for readability without changing its behavior:\n{{selection}}' },
+  { id: 'doc-comments', name: 'Add doc comments', body: 'Add doc comments to the exported functions and types in {{file}}.' },
+];
+
+const VARIABLE_PATTERN = /\{\{\s*(file|selection)\s*\}\}/g;
+
+export type TemplateVariable = 'file' | 'selection';
+
+/**
+ * Loads the saved prompt templates, starting with a few examples.
+ */
+export const loadPromptTemplates = (): PromptTemplate[] => {
+  try {
+    const saved = localStorage.getItem(TEMPLATES_KEY);
+    if (saved) return JSON.parse(saved);
+  } catch (error) {
+    console.warn('Ignoring unreadable prompt templates:', error);
+  }
+  return DEFAULT_TEMPLATES;
+};
+
+export const savePromptTemplates = (templates: PromptTemplate[]) => {
+  localStorage.setItem(TEMPLATES_KEY, JSON.stringify(templates));
+};
+
+/**
+ * @returns The variables a template refers to.
+ */
+export const getTemplateVariables = (body: string): TemplateVariable[] =>
+  [...new Set([...body.matchAll(VARIABLE_PATTERN)].map(match => match[1] as TemplateVariable))];
+
+/**
+ * Replaces {{file}} with the path of the open file and {{selection}} with the code selected in it.
+ */
+export const fillPromptTemplate = (body: string, values: Record<TemplateVariable, string>): string =>
+  body.replace(VARIABLE_PATTERN, (_, name: TemplateVariable) => values[name]);
@@ -0,0 +1,111 @@
+import { GitProviderId } from '../types';
+
+const VAULT_KEY = 'git_token_vault';
+const SESSION_TOKEN_KEY = 'git_session_token';
+// Older versions kept the token here in plain text
+const LEGACY_TOKEN_KEY = 'github_pat';
+
+const PBKDF2_ITERATIONS = 600_000;
+
+interface StoredVault {
+  provider: GitProviderId;
+  host: string;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * Describes the remembered token without unlocking it.
+ */
+export interface RememberedToken {
+  provider: GitProviderId;
+  host: string;
+}
+
+const toBase64 = (bytes: ArrayBuffer | Uint8Array) => btoa(String.fromCharCode(...new Uint8Array(bytes)));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+// Stretches the passphrase into an AES key, so guessing it offline is slow
+const deriveKey = async (passphrase: string, salt: Uint8Array): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const readVault = (): StoredVault | null => {
+  try {
+    const raw = localStorage.getItem(VAULT_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Gets the token kept for the current browser tab, moving a plain-text token left by older versions
+ * out of localStorage on the way.
+ */
+export const getSessionToken = (): string | null => {
+  const legacyToken = localStorage.getItem(LEGACY_TOKEN_KEY);
+  if (legacyToken) {
+    localStorage.removeItem(LEGACY_TOKEN_KEY);
+    sessionStorage.setItem(SESSION_TOKEN_KEY, legacyToken);
+  }
+  return sessionStorage.getItem(SESSION_TOKEN_KEY);
+};
+
+/**
+ * Keeps the token until the browser tab is closed.
+ */
+export const setSessionToken = (token: string) => {
+  if (token) {
+    sessionStorage.setItem(SESSION_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(SESSION_TOKEN_KEY);
+  }
+};
+
+export const getRememberedToken = (): RememberedToken | null => {
+  const vault = readVault();
+  return vault && { provider: vault.provider, host: vault.host };
+};
+
+/**
+ * Stores the token in localStorage, encrypted with AES-GCM under a key derived from the passphrase.
+ * Replaces any previously remembered token.
+ */
+export const rememberToken = async (token: string, passphrase: string, provider: GitProviderId, host: string): Promise<void> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const key = await deriveKey(passphrase, salt);
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(token));
+  const vault: StoredVault = { provider, host, salt: toBase64(salt), iv: toBase64(iv), ciphertext: toBase64(ciphertext) };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+};
+
+/**
+ * Decrypts the remembered token.
+ * @throws If there is no remembered token or the passphrase is wrong.
+ */
+export const unlockRememberedToken = async (passphrase: string): Promise<string> => {
+  const vault = readVault();
+  if (!vault) throw new Error('No token is remembered on this device.');
+  const key = await deriveKey(passphrase, fromBase64(vault.salt));
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(vault.iv) }, key, fromBase64(vault.ciphertext));
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    // AES-GCM authenticates the ciphertext, so a wrong key fails here rather than producing garbage
+    throw new Error('Wrong passphrase.');
+  }
+};
+
+export const forgetRememberedToken = () => {
+  localStorage.removeItem(VAULT_KEY);
+};
@@ -0,0 +1,27 @@
+import { UploadedFile } from '../types';
+import { isEditableText } from './blob';
+
+// Tokenizers differ between models; four characters per token is a fair average for code and English
+const CHARS_PER_TOKEN = 4;
+
+// Assumed for models whose context window isn't known, e.g. custom models on local servers
+export const DEFAULT_CONTEXT_WINDOW = 32_768;
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+/**
+ * Estimates the prompt tokens of a file's content. Files whose content isn't downloaded yet are
+ * estimated from their size; binary files, Git LFS pointers and submodules are never sent and count as zero.
+ */
+export const estimateFileTokens = (file: UploadedFile): number => {
+  if (!isEditableText(file)) return 0;
+  if (file.isLoaded === false) return Math.ceil((file.size ?? 0) / CHARS_PER_TOKEN);
+  return estimateTokens(file.content);
+};
+
+/**
+ * Leaves room in the context window for the model's response.
+ * @returns The number of tokens the prompt may use.
+ */
+export const getPromptTokenLimit = (contextWindow: number = DEFAULT_CONTEXT_WINDOW): number =>
+  contextWindow - Math.min(8_192, Math.floor(contextWindow / 4));
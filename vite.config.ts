@@ -6,7 +6,9 @@ export default defineConfig(({ mode }) => {
     return {
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.GITHUB_OAUTH_CLIENT_ID': JSON.stringify(env.GITHUB_OAUTH_CLIENT_ID ?? ''),
+        'process.env.GITHUB_OAUTH_PROXY_URL': JSON.stringify(env.GITHUB_OAUTH_PROXY_URL ?? '')
       },
       resolve: {
         alias: {